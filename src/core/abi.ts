@@ -0,0 +1,37 @@
+// src/core/abi.ts
+
+/**
+ * Minimal human-readable ABI fragments for the collateral (ERC-20), Conditional
+ * Token Framework (ERC-1155), neg-risk adapter and Multicall3 contracts the SDK talks to.
+ */
+export const minimunAbi = {
+    "usdc": [
+      "function approve(address, uint256) returns (bool)",
+      "function allowance(address, address) view returns (uint256)",
+      "function balanceOf(address) view returns (uint256)"
+    ],
+    "ctf": [
+      "function setApprovalForAll(address, bool) returns (bool)",
+      "function isApprovedForAll(address, address) view returns (bool)",
+      "function balanceOf(address, uint256) view returns (uint256)",
+      "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+      "function splitPosition(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)",
+      "function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)",
+      "function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)",
+      "function payoutDenominator(bytes32 conditionId) view returns (uint256)"
+    ],
+    "negRiskAdapter": [
+      "function splitPosition(bytes32 conditionId, uint256 amount)",
+      "function mergePositions(bytes32 conditionId, uint256 amount)",
+      "function redeemPositions(bytes32 conditionId, uint256[] amounts)"
+    ],
+    "multicall3": [
+      "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+      "function getBlockNumber() view returns (uint256 blockNumber)"
+    ],
+    "ctfEvents": [
+      "event PositionSplit(address indexed stakeholder, address collateralToken, bytes32 indexed parentCollectionId, bytes32 indexed conditionId, uint256[] partition, uint256 amount)",
+      "event PositionsMerge(address indexed stakeholder, address collateralToken, bytes32 indexed parentCollectionId, bytes32 indexed conditionId, uint256[] partition, uint256 amount)",
+      "event PayoutRedemption(address indexed redeemer, address indexed collateralToken, bytes32 indexed parentCollectionId, bytes32 conditionId, uint256[] indexSets, uint256 payout)"
+    ]
+}
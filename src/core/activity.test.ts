@@ -0,0 +1,40 @@
+// src/core/activity.test.ts
+import { describe, expect, it } from 'vitest';
+import { realizedPnlByMarket } from './activity';
+import { TraderActivity } from './types';
+
+const activity = (timestamp: number, fields: Partial<TraderActivity>): TraderActivity => ({
+    timestamp, marketSlug: 'm', outcome: 'Yes', price: 0, size: 0, usdcSize: 0, ...fields,
+});
+
+describe('realizedPnlByMarket', () => {
+    it('realizes sells against the average cost', () => {
+        const [yes] = realizedPnlByMarket([
+            activity(1, { side: 'BUY', size: 10, usdcSize: 4 }),
+            activity(2, { side: 'BUY', size: 10, usdcSize: 6 }),
+            activity(3, { side: 'SELL', size: 5, usdcSize: 4 }),
+        ]);
+        expect(yes).toMatchObject({ realizedPnl: 1.5, openSize: 15, averageCost: 0.5, boughtSize: 20, closedSize: 5, volume: 14 });
+    });
+
+    it('closes the other outcomes as a loss when one outcome is redeemed', () => {
+        const [yes, no] = realizedPnlByMarket([
+            activity(1, { side: 'BUY', outcome: 'Yes', size: 10, usdcSize: 6 }),
+            activity(2, { side: 'BUY', outcome: 'No', size: 10, usdcSize: 3 }),
+            activity(3, { type: 'REDEEM', outcome: 'Yes', size: 10, usdcSize: 10 }),
+        ]);
+        expect(yes).toMatchObject({ outcome: 'Yes', realizedPnl: 4, openSize: 0 });
+        expect(no).toMatchObject({ outcome: 'No', realizedPnl: -3, openSize: 0, averageCost: 0, closedSize: 10 });
+    });
+
+    it('leaves other markets and losing shares without a redemption open', () => {
+        const result = realizedPnlByMarket([
+            activity(1, { side: 'BUY', marketSlug: 'a', outcome: 'No', size: 10, usdcSize: 3 }),
+            activity(2, { side: 'BUY', marketSlug: 'b', outcome: 'No', size: 10, usdcSize: 2 }),
+            activity(3, { type: 'REDEEM', marketSlug: 'a', outcome: 'Yes', size: 0, usdcSize: 0 }),
+            activity(4, { type: 'REDEEM', marketSlug: 'c', outcome: 'Yes', size: 5, usdcSize: 5 }),
+        ]);
+        expect(result.find((e) => e.marketSlug === 'a')).toMatchObject({ realizedPnl: 0, openSize: 10, averageCost: 0.3 });
+        expect(result.find((e) => e.marketSlug === 'b')).toMatchObject({ realizedPnl: 0, openSize: 10, averageCost: 0.2 });
+    });
+});
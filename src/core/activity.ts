@@ -0,0 +1,93 @@
+// src/core/activity.ts
+import { MarketRealizedPnl, TraderActivity, TraderActivityQuery } from './types';
+
+/** Tolerance for floating-point share amounts. */
+const EPSILON = 1e-9;
+
+/**
+ * Converts a `Date` or epoch seconds to epoch seconds.
+ */
+export function toEpochSeconds(value: Date | number): number {
+    return value instanceof Date ? Math.floor(value.getTime() / 1000) : value;
+}
+
+/**
+ * Whether an activity passes the filters of a query. Used to enforce filters on responses
+ * in case the endpoint ignores some of them.
+ */
+export function matchesActivityQuery(activity: TraderActivity, query: TraderActivityQuery): boolean {
+    if (query.from !== undefined && activity.timestamp < toEpochSeconds(query.from)) return false;
+    if (query.to !== undefined && activity.timestamp > toEpochSeconds(query.to)) return false;
+    if (query.side && activity.side !== query.side) return false;
+    if (query.marketSlug && activity.marketSlug !== query.marketSlug) return false;
+    return true;
+}
+
+/**
+ * Closes the open shares of every outcome of `marketSlug` other than the redeemed one, at zero proceeds.
+ */
+function closeLosingOutcomes(entries: Iterable<MarketRealizedPnl>, marketSlug: string, redeemedOutcome: string) {
+    for (const entry of Array.from(entries)) {
+        if (entry.marketSlug !== marketSlug || entry.outcome === redeemedOutcome || entry.openSize <= 0) continue;
+        entry.realizedPnl -= entry.averageCost * entry.openSize;
+        entry.closedSize += entry.openSize;
+        entry.openSize = 0;
+        entry.averageCost = 0;
+    }
+}
+
+/**
+ * Reconstructs realized PnL per market outcome from a trader's activity, using average-cost accounting.
+ *
+ * Buys add shares at their USDC cost. Sells and redemptions (`type` `REDEEM`) close shares and realize
+ * their proceeds minus the average cost of the shares closed. A redemption of one outcome also closes
+ * the shares still held of the market's other outcomes at zero, since they resolved worthless. Other
+ * activity, such as rewards or transfers, is ignored. Activities may be passed in any order; they are
+ * applied oldest first. Shares closed beyond what the history shows were bought are treated as having
+ * cost nothing.
+ *
+ * Losing shares produce no redemption of their own, so a market in which only losing outcomes were
+ * held keeps them in `openSize` at their `averageCost`, and their loss is not in `realizedPnl`.
+ * @param activities - Activity of one wallet on one provider, e.g. collected from `iterateTraderActivity`.
+ * @returns One entry per market slug and outcome, in order of first activity.
+ */
+export function realizedPnlByMarket(activities: TraderActivity[]): MarketRealizedPnl[] {
+    const entries = new Map<string, MarketRealizedPnl>();
+    const ordered = [...activities].sort((a, b) => a.timestamp - b.timestamp);
+    for (const activity of ordered) {
+        const isRedeem = activity.type?.toUpperCase() === 'REDEEM';
+        if (!isRedeem && !activity.side) continue;
+        if (!(activity.size > 0)) continue;
+
+        const marketSlug = activity.marketSlug ?? 'unknown';
+        const key = `${marketSlug}\u0000${activity.outcome}`;
+        let entry = entries.get(key);
+        if (!entry) {
+            entry = { marketSlug, outcome: activity.outcome, realizedPnl: 0, openSize: 0, averageCost: 0, boughtSize: 0, closedSize: 0, volume: 0 };
+            entries.set(key, entry);
+        }
+
+        if (isRedeem && activity.marketSlug !== undefined) {
+            closeLosingOutcomes(entries.values(), activity.marketSlug, activity.outcome);
+        }
+
+        entry.volume += activity.usdcSize;
+        if (!isRedeem && activity.side === 'BUY') {
+            const cost = entry.averageCost * entry.openSize + activity.usdcSize;
+            entry.openSize += activity.size;
+            entry.boughtSize += activity.size;
+            entry.averageCost = cost / entry.openSize;
+            continue;
+        }
+
+        const closed = Math.min(activity.size, entry.openSize);
+        entry.realizedPnl += activity.usdcSize - entry.averageCost * closed;
+        entry.openSize -= closed;
+        entry.closedSize += activity.size;
+        if (entry.openSize <= EPSILON) {
+            entry.openSize = 0;
+            entry.averageCost = 0;
+        }
+    }
+    return Array.from(entries.values());
+}
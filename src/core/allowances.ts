@@ -0,0 +1,225 @@
+// src/core/allowances.ts
+import { constants, ethers } from 'ethers';
+import { COLLATERAL_TOKEN_DECIMALS, ContractConfig } from '@polymarket/clob-client';
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { minimunAbi } from './abi';
+import {
+    AllowanceCheckOptions,
+    AllowanceManagerOptions,
+    AllowanceReport,
+    AllowanceSpender,
+    AllowanceStatus,
+    AllowanceTransaction,
+    UsdcApprovalAmount
+} from './types';
+
+const DEFAULT_SPENDERS: AllowanceSpender[] = ['exchange', 'negRiskExchange', 'negRiskAdapter'];
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MIN_PRIORITY_FEE_GWEI = 30;
+const DEFAULT_GAS_LIMIT_MULTIPLIER = 1.2;
+
+/** Which approvals each spender needs. */
+const SPENDER_TOKENS: Record<AllowanceSpender, AllowanceStatus['token'][]> = {
+    exchange: ['usdc', 'ctf'],
+    negRiskExchange: ['usdc', 'ctf'],
+    negRiskAdapter: ['usdc', 'ctf'],
+    conditionalTokens: ['usdc'],
+};
+
+/**
+ * EIP-1559 fee overrides: a tip of at least `minPriorityFeeGwei` and a max fee of twice the
+ * latest base fee plus the tip. Falls back to a legacy gas price on chains without a base fee.
+ */
+export async function estimateFees(provider: ethers.providers.Provider, minPriorityFeeGwei: number = DEFAULT_MIN_PRIORITY_FEE_GWEI): Promise<ethers.Overrides> {
+    const [block, feeData] = await Promise.all([provider.getBlock('latest'), provider.getFeeData()]);
+    if (!block?.baseFeePerGas) {
+        return feeData.gasPrice ? { gasPrice: feeData.gasPrice } : {};
+    }
+    const minTip = ethers.utils.parseUnits(String(minPriorityFeeGwei), 'gwei');
+    const suggested = feeData.maxPriorityFeePerGas ?? constants.Zero;
+    const maxPriorityFeePerGas = suggested.gt(minTip) ? suggested : minTip;
+    return { type: 2, maxPriorityFeePerGas, maxFeePerGas: block.baseFeePerGas.mul(2).add(maxPriorityFeePerGas) };
+}
+
+function toUsdcUnits(amount: number): ethers.BigNumber {
+    return ethers.utils.parseUnits(amount.toFixed(COLLATERAL_TOKEN_DECIMALS), COLLATERAL_TOKEN_DECIMALS);
+}
+
+/**
+ * Checks and sets the USDC allowances and outcome-token approvals Polymarket trading needs.
+ *
+ * Sufficient results are cached per owner, spender and token for `cacheTtlMs`, so repeated
+ * checks before orders do not re-read the chain. A cached USDC allowance is not reduced as
+ * orders consume it; with `exact` or capped approvals, pass `required` (or `force`) to re-check.
+ */
+export class AllowanceManager {
+    private cache = new Map<string, { status: AllowanceStatus; at: number }>();
+
+    constructor(private readonly contracts: ContractConfig, private readonly options: AllowanceManagerOptions = {}) {}
+
+    /** Whether missing allowances should be approved automatically before orders. */
+    get autoApprove(): boolean {
+        return this.options.autoApprove ?? true;
+    }
+
+    /**
+     * Reports the allowances of `owner` without sending anything.
+     * @param runner - A provider, or a signer connected to one.
+     */
+    check(runner: ethers.Signer | ethers.providers.Provider, owner: string, options?: AllowanceCheckOptions): Promise<AllowanceReport> {
+        return this.run(runner, owner, options ?? {}, true);
+    }
+
+    /**
+     * Approves every missing or insufficient allowance of the signer's address and waits for the approvals to confirm.
+     * @throws {PolynanceApiError} `TRANSACTION_FAILED` if an approval reverts.
+     */
+    async ensure(signer: ethers.Signer, options?: AllowanceCheckOptions): Promise<AllowanceReport> {
+        return this.run(signer, await signer.getAddress(), options ?? {}, false);
+    }
+
+    /**
+     * Drops cached results for one owner, or for everyone.
+     */
+    invalidate(owner?: string) {
+        if (!owner) {
+            this.cache.clear();
+            return;
+        }
+        const prefix = `${owner.toLowerCase()}:`;
+        Array.from(this.cache.keys()).forEach((key) => {
+            if (key.startsWith(prefix)) this.cache.delete(key);
+        });
+    }
+
+    private async run(
+        runner: ethers.Signer | ethers.providers.Provider,
+        owner: string,
+        options: AllowanceCheckOptions,
+        checkOnly: boolean
+    ): Promise<AllowanceReport> {
+        const required = options.required !== undefined ? toUsdcUnits(options.required) : constants.One;
+        const approval = options.usdcApproval ?? this.options.usdcApproval ?? 'unlimited';
+        const pairs = (options.spenders ?? DEFAULT_SPENDERS)
+            .flatMap((spender) => SPENDER_TOKENS[spender].map((token) => ({ spender, token, address: this.contracts[spender] })))
+            .filter((p) => !options.tokens || options.tokens.includes(p.token));
+        if (approval === 'exact' && options.required === undefined && !checkOnly && pairs.some((p) => p.token === 'usdc')) {
+            throw new PolynanceApiError("'exact' USDC approvals need 'required'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName: 'ensureAllowances' });
+        }
+        const ttl = this.options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+        const now = Date.now();
+        const key = (p: { spender: AllowanceSpender; token: string }) => `${owner.toLowerCase()}:${p.spender}:${p.token}`;
+
+        if (!options.force && ttl > 0) {
+            const hits = pairs.map((p) => this.cache.get(key(p)));
+            const fresh = hits.every((hit) => hit && now - hit.at < ttl && ethers.BigNumber.from(hit.status.allowance).gte(required));
+            if (fresh) {
+                const statuses = hits.map((hit) => ({ ...hit!.status, action: 'none' as const, txHash: undefined }));
+                return { owner, usdcBalance: null, statuses, transactions: [], checkOnly, ready: true, cached: true, checkedAt: now };
+            }
+        }
+
+        const usdc = new ethers.Contract(this.contracts.collateral, minimunAbi["usdc"], runner);
+        const ctf = new ethers.Contract(this.contracts.conditionalTokens, minimunAbi["ctf"], runner);
+        const [usdcBalance, ...allowances] = await Promise.all([
+            usdc.balanceOf(owner) as Promise<ethers.BigNumber>,
+            ...pairs.map((p) => p.token === 'usdc'
+                ? usdc.allowance(owner, p.address) as Promise<ethers.BigNumber>
+                : (ctf.isApprovedForAll(owner, p.address) as Promise<boolean>).then((ok) => ok ? constants.MaxUint256 : constants.Zero)),
+        ]);
+
+        const statuses: AllowanceStatus[] = pairs.map((p, i) => {
+            const sufficient = allowances[i].gte(required);
+            return {
+                spender: p.spender,
+                address: p.address,
+                token: p.token,
+                allowance: allowances[i].toString(),
+                sufficient,
+                action: sufficient ? 'none' : 'required',
+            };
+        });
+
+        const transactions: AllowanceTransaction[] = [];
+        if (!checkOnly) {
+            // Sequentially, so the signer's nonces stay in order.
+            for (const status of statuses.filter((s) => !s.sufficient)) {
+                transactions.push(await this.approve(runner as ethers.Signer, usdc, ctf, status, approval, required));
+            }
+        }
+
+        statuses.forEach((status) => {
+            if (status.sufficient) this.cache.set(key(status), { status: { ...status }, at: now });
+        });
+        return {
+            owner,
+            usdcBalance: usdcBalance.toString(),
+            statuses,
+            transactions,
+            checkOnly,
+            ready: statuses.every((s) => s.sufficient),
+            cached: false,
+            checkedAt: now,
+        };
+    }
+
+    /**
+     * Sends one approval, waits for it, and updates `status` in place.
+     */
+    private async approve(
+        signer: ethers.Signer,
+        usdc: ethers.Contract,
+        ctf: ethers.Contract,
+        status: AllowanceStatus,
+        approval: UsdcApprovalAmount,
+        required: ethers.BigNumber
+    ): Promise<AllowanceTransaction> {
+        const amount = status.token === 'ctf'
+            ? constants.MaxUint256
+            : approval === 'unlimited' ? constants.MaxUint256 : approval === 'exact' ? required : toUsdcUnits(approval);
+        const [contract, method, args] = status.token === 'usdc'
+            ? [usdc, 'approve', [status.address, amount]] as const
+            : [ctf, 'setApprovalForAll', [status.address, true]] as const;
+
+        if (!signer.provider) {
+            throw new PolynanceApiError('The wallet has no provider to send approvals with.', PolynanceErrorCode.INVALID_PARAMETER, { methodName: 'ensureAllowances' });
+        }
+        const [gas, fees] = await Promise.all([
+            contract.estimateGas[method](...args) as Promise<ethers.BigNumber>,
+            estimateFees(signer.provider, this.options.minPriorityFeeGwei),
+        ]);
+        const multiplier = this.options.gasLimitMultiplier ?? DEFAULT_GAS_LIMIT_MULTIPLIER;
+        const tx: ethers.ContractTransaction = await contract[method](...args, {
+            ...fees,
+            gasLimit: gas.mul(Math.round(multiplier * 100)).div(100),
+        });
+
+        let receipt: ethers.ContractReceipt;
+        try {
+            receipt = await tx.wait(this.options.confirmations ?? 1);
+        } catch (error: any) {
+            if (error?.code === 'CALL_EXCEPTION' && error.receipt) {
+                throw new PolynanceApiError(`Approval ${tx.hash} for ${status.spender} reverted.`, PolynanceErrorCode.TRANSACTION_FAILED, {
+                    methodName: 'ensureAllowances',
+                    cause: error,
+                    context: { txHash: tx.hash, spender: status.spender, token: status.token },
+                });
+            }
+            throw error;
+        }
+
+        status.allowance = amount.toString();
+        status.sufficient = amount.gte(required);
+        status.action = status.sufficient ? 'approved' : 'required';
+        status.txHash = tx.hash;
+        return {
+            spender: status.spender,
+            token: status.token,
+            txHash: tx.hash,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveGasPrice: (receipt.effectiveGasPrice ?? tx.gasPrice ?? constants.Zero).toString(),
+            amount: status.token === 'ctf' ? true : amount.toString(),
+        };
+    }
+}
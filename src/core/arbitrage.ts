@@ -0,0 +1,294 @@
+// src/core/arbitrage.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { computeFee, takerLevels } from './orderbook';
+import { endDatesMatch, questionSimilarity } from './matching';
+import {
+    ArbitrageLeg,
+    ArbitrageOpportunity,
+    ArbitrageScanOptions,
+    ArbitrageWatchHandlers,
+    ArbitrageWatchOptions,
+    Exchange,
+    Market,
+    MarketMatchResult,
+    OrderBookLevel,
+    OrderBookSummary,
+    PredictionProvider,
+    SearchFilter
+} from './types';
+
+const DEFAULT_PROTOCOLS: PredictionProvider[] = ['polymarket', 'limitless', 'truemarket'];
+const DEFAULT_FEE_RATE_BPS: Record<PredictionProvider, number> = { polymarket: 0, limitless: 0, truemarket: 100 };
+const DEFAULT_MAX_SEEDS = 20;
+const DEFAULT_MIN_SIMILARITY = 0.75;
+const DEFAULT_MIN_QUESTION_SIMILARITY = 0.6;
+const DEFAULT_MAX_END_DATE_DIFF_MS = 24 * 60 * 60 * 1000;
+/** Searches run at most this many at a time while discovering counterparts of seed markets. */
+const SEARCH_CONCURRENCY = 4;
+const DEFAULT_WATCH_INTERVAL_MS = 30000;
+
+/**
+ * The SDK reads the scanner needs.
+ */
+export interface ArbitrageDataSource {
+    search(query: string, filter?: Partial<SearchFilter>): Promise<MarketMatchResult[]>;
+    getActiveMarkets(protocol: PredictionProvider, page: number, limit: number): Promise<Market[]>;
+    getOrderbook(protocol: PredictionProvider, exchangeId: string): Promise<Record<string, OrderBookSummary>>;
+}
+
+/**
+ * An exchange together with the market it belongs to.
+ */
+interface Listing {
+    market: Market;
+    exchange: Exchange;
+}
+
+/**
+ * A leg priced for evaluation, with the ask ladder (if a book was loaded) and fee rate behind it.
+ */
+interface PricedLeg {
+    leg: ArbitrageLeg;
+    asks: OrderBookLevel[] | null;
+    feeRateBps: number;
+}
+
+/**
+ * Fee per share for buying at `price` on `provider`.
+ */
+function feePerShare(provider: PredictionProvider, price: number, feeRateBps: number): number {
+    if (provider === 'truemarket') return (feeRateBps / 10000) * price;
+    return computeFee({ price, size: 1 }, feeRateBps);
+}
+
+function findOutcome(exchange: Exchange, outcome: 'yes' | 'no') {
+    return exchange.position_tokens.find((pt) => pt.name.trim().toLowerCase() === outcome);
+}
+
+/**
+ * Finds same-question exchanges on different providers, based on question similarity and end dates.
+ */
+export function matchListings(markets: Market[], options?: ArbitrageScanOptions): { a: Listing; b: Listing; confidence: number }[] {
+    const minQuestionSimilarity = options?.minQuestionSimilarity ?? DEFAULT_MIN_QUESTION_SIMILARITY;
+    const maxEndDateDiffMs = options?.maxEndDateDiffMs ?? DEFAULT_MAX_END_DATE_DIFF_MS;
+    const protocols = options?.protocols ?? DEFAULT_PROTOCOLS;
+
+    const listings: Listing[] = [];
+    const seen = new Set<string>();
+    for (const market of markets) {
+        if (!protocols.includes(market.protocol)) continue;
+        for (const exchange of market.markets) {
+            const key = `${market.protocol}:${exchange.id}`;
+            if (seen.has(key) || !findOutcome(exchange, 'yes') || !findOutcome(exchange, 'no')) continue;
+            seen.add(key);
+            listings.push({ market, exchange });
+        }
+    }
+
+    const pairs: { a: Listing; b: Listing; confidence: number }[] = [];
+    for (let i = 0; i < listings.length; i++) {
+        for (let j = i + 1; j < listings.length; j++) {
+            const a = listings[i];
+            const b = listings[j];
+            if (a.market.protocol === b.market.protocol) continue;
+            if (!endDatesMatch(a.exchange.end || a.market.endDate, b.exchange.end || b.market.endDate, maxEndDateDiffMs)) continue;
+            const confidence = questionSimilarity(a.exchange.question || a.market.title, b.exchange.question || b.market.title);
+            if (confidence >= minQuestionSimilarity) pairs.push({ a, b, confidence });
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Buys both ladders level by level while a share pair still costs less than 1 after fees.
+ */
+function walkPair(
+    asksA: OrderBookLevel[],
+    asksB: OrderBookLevel[],
+    feeA: (price: number) => number,
+    feeB: (price: number) => number
+): { size: number; profit: number } {
+    let i = 0;
+    let j = 0;
+    let remA = asksA[0]?.size ?? 0;
+    let remB = asksB[0]?.size ?? 0;
+    let size = 0;
+    let profit = 0;
+    while (i < asksA.length && j < asksB.length) {
+        const pa = asksA[i].price;
+        const pb = asksB[j].price;
+        const unitEdge = 1 - pa - pb - feeA(pa) - feeB(pb);
+        if (unitEdge <= 0) break;
+        const take = Math.min(remA, remB);
+        size += take;
+        profit += take * unitEdge;
+        remA -= take;
+        remB -= take;
+        if (remA <= 0 && ++i < asksA.length) remA = asksA[i].size;
+        if (remB <= 0 && ++j < asksB.length) remB = asksB[j].size;
+    }
+    return { size, profit };
+}
+
+/**
+ * Finds markets pricing the same question differently across providers.
+ *
+ * For every pair of matching exchanges, buying YES on one and NO on the other (and vice versa)
+ * locks in 1 per share pair; whenever the two legs cost less than that after fees, the
+ * difference is the edge. With order books, legs are priced at the best ask and `maxSize` /
+ * `expectedProfit` account for depth.
+ */
+export class ArbitrageScanner {
+    constructor(private readonly source: ArbitrageDataSource) {}
+
+    /**
+     * Runs one scan.
+     * @returns Opportunities with at least `minEdge`, best edge first.
+     */
+    async scan(options?: ArbitrageScanOptions): Promise<ArbitrageOpportunity[]> {
+        const markets = await this.collectMarkets(options);
+        const pairs = matchListings(markets, options);
+        const useOrderbooks = options?.useOrderbooks ?? true;
+        const minEdge = options?.minEdge ?? 0;
+        const books = new Map<string, Promise<Record<string, OrderBookSummary> | null>>();
+        const loadBook = (listing: Listing) => {
+            const key = `${listing.market.protocol}:${listing.exchange.id}`;
+            if (!books.has(key)) {
+                books.set(key, this.source.getOrderbook(listing.market.protocol, listing.exchange.id).catch(() => null));
+            }
+            return books.get(key)!;
+        };
+
+        const detectedAt = Date.now();
+        const opportunities: ArbitrageOpportunity[] = [];
+        for (const { a, b, confidence } of pairs) {
+            const [bookA, bookB] = useOrderbooks ? await Promise.all([loadBook(a), loadBook(b)]) : [null, null];
+            for (const [outcomeA, outcomeB] of [['yes', 'no'], ['no', 'yes']] as const) {
+                const opportunity = this.evaluate(
+                    this.leg(a, outcomeA, bookA, options),
+                    this.leg(b, outcomeB, bookB, options),
+                    confidence,
+                    detectedAt
+                );
+                if (opportunity && opportunity.edge >= minEdge) opportunities.push(opportunity);
+            }
+        }
+        return opportunities.sort((x, y) => y.edge - x.edge || (y.expectedProfit ?? 0) - (x.expectedProfit ?? 0));
+    }
+
+    /**
+     * Scans repeatedly, reporting opportunities that were not present in the previous scan.
+     * @returns A handle that stops the watcher.
+     */
+    watch(handlers: ArbitrageWatchHandlers, options?: ArbitrageWatchOptions): { stop: () => void } {
+        const intervalMs = Math.max(0, options?.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS);
+        let previous = new Set<string>();
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const run = async () => {
+            try {
+                const opportunities = await this.scan(options);
+                if (stopped) return;
+                const fresh = opportunities.filter((o) => !previous.has(o.id));
+                previous = new Set(opportunities.map((o) => o.id));
+                handlers.onScan?.(opportunities);
+                if (fresh.length > 0) handlers.onOpportunity?.(fresh);
+            } catch (error) {
+                if (stopped) return;
+                handlers.onError?.(error instanceof PolynanceApiError
+                    ? error
+                    : new PolynanceApiError('Arbitrage scan failed.', PolynanceErrorCode.INTERNAL_SDK_ERROR, {
+                        cause: error instanceof Error ? error : undefined,
+                        methodName: 'watchArbitrage',
+                    }));
+            }
+            if (!stopped) timer = setTimeout(run, intervalMs);
+        };
+        run();
+
+        return {
+            stop: () => {
+                stopped = true;
+                if (timer) clearTimeout(timer);
+            },
+        };
+    }
+
+    private async collectMarkets(options?: ArbitrageScanOptions): Promise<Market[]> {
+        if (options?.markets) return options.markets;
+        const protocols = options?.protocols ?? DEFAULT_PROTOCOLS;
+        const threshold = options?.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+        if (options?.query) {
+            const results = await this.source.search(options.query, { protocols, threshold });
+            return results.map((r) => r.event);
+        }
+
+        // Seed with active markets of the first protocol and look for their counterparts elsewhere.
+        const [seedProtocol, ...others] = protocols;
+        if (!seedProtocol || others.length === 0) return [];
+        const seeds = await this.source.getActiveMarkets(seedProtocol, 1, options?.maxSeeds ?? DEFAULT_MAX_SEEDS);
+        const markets: Market[] = [...seeds];
+        for (let i = 0; i < seeds.length; i += SEARCH_CONCURRENCY) {
+            const batch = seeds.slice(i, i + SEARCH_CONCURRENCY);
+            const results = await Promise.all(batch.map((seed) =>
+                this.source.search(seed.title, { protocols: others, threshold, topK: 5 }).catch(() => [] as MarketMatchResult[])
+            ));
+            results.forEach((matches) => markets.push(...matches.map((m) => m.event)));
+        }
+        return markets;
+    }
+
+    private leg(listing: Listing, outcome: 'yes' | 'no', books: Record<string, OrderBookSummary> | null, options?: ArbitrageScanOptions): PricedLeg | null {
+        const token = findOutcome(listing.exchange, outcome);
+        if (!token) return null;
+        const provider = listing.market.protocol;
+        const feeRateBps = options?.feeRateBps?.[provider] ?? DEFAULT_FEE_RATE_BPS[provider];
+        const book = books?.[token.token_id];
+        const asks = book ? takerLevels(book, 'BUY') : null;
+        const price = asks ? asks[0]?.price : Number(token.price);
+        if (price === undefined || !(price > 0 && price < 1)) return null;
+        return {
+            leg: {
+                provider,
+                marketId: listing.market.id,
+                exchangeId: listing.exchange.id,
+                question: listing.exchange.question || listing.market.title,
+                tokenId: token.token_id,
+                outcome: token.name,
+                price,
+                fee: feePerShare(provider, price, feeRateBps),
+                source: asks ? 'orderbook' : 'price',
+            },
+            asks: asks && asks.length > 0 ? asks : null,
+            feeRateBps,
+        };
+    }
+
+    private evaluate(a: PricedLeg | null, b: PricedLeg | null, matchConfidence: number, detectedAt: number): ArbitrageOpportunity | null {
+        if (!a || !b) return null;
+        const cost = a.leg.price + b.leg.price;
+        const fees = a.leg.fee + b.leg.fee;
+        const depth = a.asks && b.asks
+            ? walkPair(
+                a.asks,
+                b.asks,
+                (p) => feePerShare(a.leg.provider, p, a.feeRateBps),
+                (p) => feePerShare(b.leg.provider, p, b.feeRateBps)
+            )
+            : null;
+        return {
+            id: `${a.leg.provider}:${a.leg.tokenId}|${b.leg.provider}:${b.leg.tokenId}`,
+            question: a.leg.question,
+            legs: [a.leg, b.leg],
+            matchConfidence,
+            cost,
+            fees,
+            edge: 1 - cost - fees,
+            maxSize: depth ? depth.size : null,
+            expectedProfit: depth ? depth.profit : null,
+            detectedAt,
+        };
+    }
+
+}
@@ -0,0 +1,47 @@
+// src/core/backoff.ts
+import { BackoffPolicy } from './types';
+
+/**
+ * Backoff policy with every field populated.
+ */
+export type ResolvedBackoffPolicy = Required<BackoffPolicy>;
+
+export const DEFAULT_BACKOFF_POLICY: ResolvedBackoffPolicy = {
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    multiplier: 2,
+    jitter: 0.5,
+    maxAttempts: 10,
+};
+
+/**
+ * Merges the given policies from lowest to highest precedence, ignoring `undefined` fields.
+ * @param policies - Partial policies; later entries win.
+ * @returns A fully populated policy.
+ */
+export function resolveBackoffPolicy(...policies: (BackoffPolicy | undefined)[]): ResolvedBackoffPolicy {
+    const resolved: ResolvedBackoffPolicy = { ...DEFAULT_BACKOFF_POLICY };
+    for (const policy of policies) {
+        if (!policy) continue;
+        if (policy.initialDelayMs !== undefined) resolved.initialDelayMs = Math.max(0, policy.initialDelayMs);
+        if (policy.maxDelayMs !== undefined) resolved.maxDelayMs = Math.max(0, policy.maxDelayMs);
+        if (policy.multiplier !== undefined) resolved.multiplier = Math.max(1, policy.multiplier);
+        if (policy.jitter !== undefined) resolved.jitter = Math.min(1, Math.max(0, policy.jitter));
+        if (policy.maxAttempts !== undefined) resolved.maxAttempts = Math.max(0, policy.maxAttempts);
+    }
+    return resolved;
+}
+
+/**
+ * Computes the delay before the given retry attempt using exponential backoff with jitter.
+ * @param attempt - The 1-based retry attempt number.
+ * @param policy - The resolved backoff policy.
+ * @returns The delay in milliseconds.
+ */
+export function computeBackoffDelay(attempt: number, policy: ResolvedBackoffPolicy): number {
+    const exponential = policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1));
+    const capped = Math.min(policy.maxDelayMs, exponential);
+    // "Equal jitter": keep (1 - jitter) of the delay fixed and randomize the rest.
+    const randomized = capped * (1 - policy.jitter) + Math.random() * capped * policy.jitter;
+    return Math.round(randomized);
+}
@@ -0,0 +1,93 @@
+// src/core/balances.ts
+import { ethers } from 'ethers';
+import { COLLATERAL_TOKEN_DECIMALS } from '@polymarket/clob-client';
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { minimunAbi } from './abi';
+import { NetworkContracts, TokenBalance } from './types';
+
+/** Token ids per `balanceOfBatch` call, to keep each call's return data small. */
+const BATCH_SIZE = 200;
+
+const usdcInterface = new ethers.utils.Interface(minimunAbi["usdc"]);
+const ctfInterface = new ethers.utils.Interface(minimunAbi["ctf"]);
+
+/**
+ * Wraps a base-unit amount with its decimal representations.
+ * Position tokens share the collateral's 6 decimals.
+ */
+export function toTokenBalance(raw: ethers.BigNumberish, decimals: number = COLLATERAL_TOKEN_DECIMALS): TokenBalance {
+    const amount = ethers.BigNumber.from(raw);
+    const formatted = ethers.utils.formatUnits(amount, decimals);
+    return { raw: amount, decimals, formatted, value: Number(formatted) };
+}
+
+/**
+ * Converts a decimal amount, such as a paper-trading balance, to a token balance.
+ */
+export function fromDecimalAmount(amount: number, decimals: number = COLLATERAL_TOKEN_DECIMALS): TokenBalance {
+    return toTokenBalance(ethers.utils.parseUnits(amount.toFixed(decimals), decimals), decimals);
+}
+
+/**
+ * Reads the USDC balance and position-token balances of one owner.
+ *
+ * With a Multicall3 address, everything is read in a single `eth_call`, so all balances come from
+ * the same block. Without one, the USDC balance and each `balanceOfBatch` chunk are read in parallel.
+ * @param runner - A provider, or a signer connected to one.
+ * @param tokenIds - Position token ids; duplicates are read once.
+ */
+export async function readWalletBalances(
+    runner: ethers.Signer | ethers.providers.Provider,
+    contracts: Pick<NetworkContracts, 'collateral' | 'conditionalTokens'>,
+    owner: string,
+    tokenIds: string[],
+    multicallAddress?: string
+): Promise<{ usdc: TokenBalance; positions: Record<string, TokenBalance>; blockNumber: number | null }> {
+    const ids = Array.from(new Set(tokenIds));
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        chunks.push(ids.slice(i, i + BATCH_SIZE));
+    }
+
+    let usdcRaw: ethers.BigNumber;
+    let chunkBalances: ethers.BigNumber[][];
+    let blockNumber: number | null = null;
+    if (multicallAddress) {
+        const multicall = new ethers.Contract(multicallAddress, minimunAbi["multicall3"], runner);
+        const calls = [
+            { target: multicallAddress, allowFailure: false, callData: multicall.interface.encodeFunctionData('getBlockNumber') },
+            { target: contracts.collateral, allowFailure: false, callData: usdcInterface.encodeFunctionData('balanceOf', [owner]) },
+            ...chunks.map((chunk) => ({
+                target: contracts.conditionalTokens,
+                allowFailure: false,
+                callData: ctfInterface.encodeFunctionData('balanceOfBatch', [chunk.map(() => owner), chunk]),
+            })),
+        ];
+        const results: { success: boolean; returnData: string }[] = await multicall.callStatic.aggregate3(calls);
+        if (results.length !== calls.length) {
+            throw new PolynanceApiError('Multicall returned an unexpected number of results.', PolynanceErrorCode.VALIDATION_ERROR, {
+                methodName: 'getWalletSnapshot',
+                context: { expected: calls.length, received: results.length },
+            });
+        }
+        const [blockResult, usdcResult, ...chunkResults] = results;
+        blockNumber = ethers.BigNumber.from(multicall.interface.decodeFunctionResult('getBlockNumber', blockResult.returnData)[0]).toNumber();
+        usdcRaw = usdcInterface.decodeFunctionResult('balanceOf', usdcResult.returnData)[0];
+        chunkBalances = chunkResults.map((r) => ctfInterface.decodeFunctionResult('balanceOfBatch', r.returnData)[0]);
+    } else {
+        const usdc = new ethers.Contract(contracts.collateral, minimunAbi["usdc"], runner);
+        const ctf = new ethers.Contract(contracts.conditionalTokens, minimunAbi["ctf"], runner);
+        [usdcRaw, ...chunkBalances] = await Promise.all([
+            usdc.balanceOf(owner) as Promise<ethers.BigNumber>,
+            ...chunks.map((chunk) => ctf.balanceOfBatch(chunk.map(() => owner), chunk) as Promise<ethers.BigNumber[]>),
+        ]);
+    }
+
+    const positions: Record<string, TokenBalance> = {};
+    chunks.forEach((chunk, i) => {
+        chunk.forEach((id, j) => {
+            positions[id] = toTokenBalance(chunkBalances[i][j]);
+        });
+    });
+    return { usdc: toTokenBalance(usdcRaw), positions, blockNumber };
+}
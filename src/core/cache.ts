@@ -0,0 +1,167 @@
+// src/core/cache.ts
+import { CacheOptions, CacheStore, CachedMethod } from './types';
+
+const DEFAULT_TTL_MS: Record<CachedMethod, number> = {
+    getMarket: 30000,
+    getExchange: 5000,
+    getSlugs: 300000,
+    getMarketBySlug: 30000,
+    search: 60000,
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_KEY_PREFIX = 'polynance:';
+
+/**
+ * In-memory `CacheStore` that evicts the least recently used entry once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+    // Map iteration follows insertion order; entries are re-inserted on access so the first key is the LRU one.
+    private entries = new Map<string, { value: string; expiresAt: number }>();
+
+    constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+    async get(key: string): Promise<string | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlMs: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest === undefined) break;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(prefix?: string): Promise<void> {
+        if (!prefix) {
+            this.entries.clear();
+            return;
+        }
+        for (const key of Array.from(this.entries.keys())) {
+            if (key.startsWith(prefix)) this.entries.delete(key);
+        }
+    }
+}
+
+/**
+ * Envelope stored in the `CacheStore` so freshness can be judged independently of the store's own expiry.
+ */
+interface CacheEnvelope<T> {
+    value: T;
+    /** Unix milliseconds after which the value is stale. */
+    freshUntil: number;
+}
+
+/**
+ * Caches SDK method results in a `CacheStore` with per-method TTLs,
+ * stale-while-revalidate and de-duplication of concurrent requests.
+ *
+ * Store failures never fail a call: they are logged and the value is fetched from the API instead.
+ */
+export class ResponseCache {
+    private readonly ttl: Record<CachedMethod, number>;
+    private readonly staleWhileRevalidateMs: number;
+    private readonly keyPrefix: string;
+    private inflight = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly store: CacheStore, options?: CacheOptions) {
+        this.ttl = { ...DEFAULT_TTL_MS, ...options?.ttl };
+        this.staleWhileRevalidateMs = Math.max(0, options?.staleWhileRevalidateMs ?? 0);
+        this.keyPrefix = options?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    }
+
+    /**
+     * Returns the cached result for `method(...args)`, calling `fetcher` on a miss.
+     * A stale entry inside the stale-while-revalidate window is returned immediately and refreshed in the background.
+     * @param method - The SDK method being cached.
+     * @param args - The method arguments; they form the cache key.
+     * @param fetcher - Loads a fresh value from the API.
+     */
+    async wrap<T>(method: CachedMethod, args: unknown[], fetcher: () => Promise<T>): Promise<T> {
+        const ttlMs = this.ttl[method];
+        if (!ttlMs || ttlMs <= 0) {
+            return fetcher();
+        }
+        const key = this.key(method, args);
+
+        const envelope = await this.read<T>(key);
+        if (envelope) {
+            if (envelope.freshUntil > Date.now()) {
+                return envelope.value;
+            }
+            // Within the stale window (the store would have expired it otherwise): serve stale, refresh in background.
+            this.refresh(key, ttlMs, fetcher).catch((error) => {
+                console.warn(`[cache] Background refresh of ${method} failed:`, error instanceof Error ? error.message : error);
+            });
+            return envelope.value;
+        }
+        return this.refresh(key, ttlMs, fetcher);
+    }
+
+    /**
+     * Removes cached results.
+     * @param method - Limit invalidation to one method; omit to clear everything.
+     * @param args - Limit invalidation to one exact call of `method`.
+     */
+    async invalidate(method?: CachedMethod, args?: unknown[]): Promise<void> {
+        try {
+            if (!method) {
+                await this.store.clear(this.keyPrefix);
+            } else if (args) {
+                await this.store.delete(this.key(method, args));
+            } else {
+                await this.store.clear(`${this.keyPrefix}${method}:`);
+            }
+        } catch (error) {
+            console.warn('[cache] Invalidation failed:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    private key(method: CachedMethod, args: unknown[]): string {
+        return `${this.keyPrefix}${method}:${JSON.stringify(args)}`;
+    }
+
+    private async read<T>(key: string): Promise<CacheEnvelope<T> | undefined> {
+        try {
+            const raw = await this.store.get(key);
+            return raw === undefined ? undefined : JSON.parse(raw) as CacheEnvelope<T>;
+        } catch (error) {
+            console.warn('[cache] Read failed:', error instanceof Error ? error.message : error);
+            return undefined;
+        }
+    }
+
+    private refresh<T>(key: string, ttlMs: number, fetcher: () => Promise<T>): Promise<T> {
+        const pending = this.inflight.get(key);
+        if (pending) return pending as Promise<T>;
+
+        const promise = (async () => {
+            try {
+                const value = await fetcher();
+                const envelope: CacheEnvelope<T> = { value, freshUntil: Date.now() + ttlMs };
+                try {
+                    await this.store.set(key, JSON.stringify(envelope), ttlMs + this.staleWhileRevalidateMs);
+                } catch (error) {
+                    console.warn('[cache] Write failed:', error instanceof Error ? error.message : error);
+                }
+                return value;
+            } finally {
+                this.inflight.delete(key);
+            }
+        })();
+        this.inflight.set(key, promise);
+        return promise;
+    }
+}
@@ -0,0 +1,245 @@
+// src/core/candles.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { Candle, CandleOptions, OutcomeCandle, TradeRecord } from './types';
+
+/** @throws {PolynanceApiError} `INVALID_PARAMETER` unless the interval is a positive, finite number. */
+export function assertInterval(intervalMillis: number, methodName: string) {
+    if (!(intervalMillis > 0) || !Number.isFinite(intervalMillis)) {
+        throw new PolynanceApiError("Candlestick intervalMillis must be positive.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context: { intervalMillis } });
+    }
+}
+
+/** Start (Unix milliseconds) of the interval containing `timeMillis`. */
+export function bucketStart(timeMillis: number, intervalMillis: number): number {
+    return Math.floor(timeMillis / intervalMillis) * intervalMillis;
+}
+
+/**
+ * A candle for an interval without trades, carrying the previous close.
+ */
+export function filledCandle(timeSeconds: number, previousClose: number, tradeStats: boolean): Candle {
+    return {
+        time: timeSeconds,
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        volume: 0,
+        ...(tradeStats ? { vwap: previousClose, trades: 0 } : {}),
+        filled: true,
+    };
+}
+
+/**
+ * Emits a candle for every interval from `startMillis` to `endMillis` (both interval starts, inclusive),
+ * forward-filling the missing ones. Intervals before the first candle are only filled when `seedClose` is known.
+ */
+function forwardFill(
+    candles: Candle[],
+    intervalMillis: number,
+    startMillis: number,
+    endMillis: number,
+    tradeStats: boolean,
+    seedClose?: number
+): Candle[] {
+    const byTime = new Map(candles.map((c) => [c.time, c]));
+    const filled: Candle[] = [];
+    let previousClose = seedClose;
+    for (let t = startMillis; t <= endMillis; t += intervalMillis) {
+        const time = Math.floor(t / 1000);
+        const candle = byTime.get(time);
+        if (candle) {
+            filled.push(candle);
+            previousClose = candle.close;
+        } else if (previousClose !== undefined) {
+            filled.push(filledCandle(time, previousClose, tradeStats));
+        }
+    }
+    return filled;
+}
+
+/**
+ * Generates price chart data (OHLCV) from a list of trade records.
+ *
+ * With `fillGaps`, every interval up to `toTimeMillis` gets a candle. Leading intervals are filled
+ * from the last trade before `fromTimeMillis`, if the records include one.
+ *
+ * @param tradeRecords - An array of `TradeRecord` objects representing trades. Assumes timestamps are in **seconds**.
+ * @param intervalMillis - The desired candlestick interval duration in **milliseconds**.
+ * @param fromTimeMillis - The start timestamp (Unix milliseconds) for the desired data range (inclusive).
+ * @param toTimeMillis - The end timestamp (Unix milliseconds) for the desired data range (exclusive).
+ * @param options - Gap filling and per-candle trade statistics.
+ * @returns An array of `Candle` objects, sorted by time. Returns an empty array if no valid events fall within the range.
+ * @throws {PolynanceApiError} if intervalMillis is not positive.
+ */
+export function generatePriceChart(
+    tradeRecords: TradeRecord[],
+    intervalMillis: number,
+    fromTimeMillis: number,
+    toTimeMillis: number,
+    options: CandleOptions = {}
+): Candle[] {
+    const methodName = 'generatePriceChart';
+    assertInterval(intervalMillis, methodName);
+    if (!tradeRecords || tradeRecords.length === 0) {
+        return [];
+    }
+    const tradeStats = options.tradeStats ?? false;
+
+    // Filter and sort events (ensure timestamps are handled correctly)
+    const validRecords = tradeRecords
+        .filter(record =>
+            typeof record.timestamp === 'number' &&
+            typeof record.price === 'number' &&
+            typeof record.volumeBase === 'number'
+        )
+        .map(record => ({
+            timestampMillis: record.timestamp * 1000,
+            price: record.price,
+            volumeBase: record.volumeBase
+        }))
+        .sort((a, b) => a.timestampMillis - b.timestampMillis);
+    const filteredRecords = validRecords.filter(record =>
+        record.timestampMillis >= fromTimeMillis &&
+        record.timestampMillis < toTimeMillis
+    );
+    const seedClose = validRecords.filter(record => record.timestampMillis < fromTimeMillis).pop()?.price;
+
+    if (filteredRecords.length === 0 && !(options.fillGaps && seedClose !== undefined)) {
+        return [];
+    }
+
+    const candleMap = new Map<number, Candle>();
+    const notional = new Map<number, number>();
+
+    for (const record of filteredRecords) {
+        const bucketStartTimeSeconds = Math.floor(bucketStart(record.timestampMillis, intervalMillis) / 1000);
+
+        const existingCandle = candleMap.get(bucketStartTimeSeconds);
+
+        if (!existingCandle) {
+            candleMap.set(bucketStartTimeSeconds, {
+                time: bucketStartTimeSeconds,
+                open: record.price,
+                high: record.price,
+                low: record.price,
+                close: record.price,
+                volume: record.volumeBase,
+                ...(tradeStats ? { trades: 1 } : {}),
+            });
+        } else {
+            existingCandle.high = Math.max(existingCandle.high, record.price);
+            existingCandle.low = Math.min(existingCandle.low, record.price);
+            existingCandle.close = record.price; // Last price updates close
+            existingCandle.volume += record.volumeBase;
+            if (tradeStats) existingCandle.trades = (existingCandle.trades ?? 0) + 1;
+        }
+        notional.set(bucketStartTimeSeconds, (notional.get(bucketStartTimeSeconds) ?? 0) + record.price * record.volumeBase);
+    }
+
+    // Convert map values to array and sort
+    const candles = Array.from(candleMap.values()).sort((a, b) => a.time - b.time);
+    if (tradeStats) {
+        candles.forEach((c) => { c.vwap = c.volume > 0 ? notional.get(c.time)! / c.volume : c.close; });
+    }
+    if (!options.fillGaps) {
+        return candles;
+    }
+
+    const start = seedClose !== undefined ? bucketStart(fromTimeMillis, intervalMillis) : candles[0].time * 1000;
+    const end = Number.isFinite(toTimeMillis)
+        ? bucketStart(toTimeMillis - 1, intervalMillis)
+        : (candles[candles.length - 1]?.time ?? Math.floor(start / 1000)) * 1000;
+    return forwardFill(candles, intervalMillis, start, end, tradeStats, seedClose);
+}
+
+/**
+ * Aggregates candles into a coarser interval. `intervalMillis` should be a multiple of the
+ * source interval; otherwise source candles are assigned to the interval their start falls in.
+ *
+ * Volumes and trade counts are summed. With `tradeStats`, `vwap` is the volume-weighted mean of the
+ * source candles' `vwap` (or `close`, for candles without one). An interval made only of
+ * forward-filled candles is marked `filled`.
+ * @throws {PolynanceApiError} if intervalMillis is not positive.
+ */
+export function resampleCandles(candles: Candle[], intervalMillis: number, options: CandleOptions = {}): Candle[] {
+    assertInterval(intervalMillis, 'resampleCandles');
+    const tradeStats = options.tradeStats ?? false;
+    const groups = new Map<number, Candle[]>();
+    for (const candle of [...candles].sort((a, b) => a.time - b.time)) {
+        const time = Math.floor(bucketStart(candle.time * 1000, intervalMillis) / 1000);
+        const group = groups.get(time);
+        if (group) group.push(candle);
+        else groups.set(time, [candle]);
+    }
+
+    const resampled = Array.from(groups, ([time, group]): Candle => {
+        const last = group[group.length - 1];
+        const volume = group.reduce((sum, c) => sum + c.volume, 0);
+        const candle: Candle = {
+            time,
+            open: group[0].open,
+            high: Math.max(...group.map((c) => c.high)),
+            low: Math.min(...group.map((c) => c.low)),
+            close: last.close,
+            volume,
+        };
+        if (tradeStats) {
+            const notional = group.reduce((sum, c) => sum + (c.vwap ?? c.close) * c.volume, 0);
+            candle.vwap = volume > 0 ? notional / volume : last.close;
+            candle.trades = group.reduce((sum, c) => sum + (c.trades ?? 0), 0);
+        }
+        if (group.every((c) => c.filled)) candle.filled = true;
+        return candle;
+    });
+
+    if (!options.fillGaps || resampled.length === 0) {
+        return resampled;
+    }
+    return forwardFill(resampled, intervalMillis, resampled[0].time * 1000, resampled[resampled.length - 1].time * 1000, tradeStats);
+}
+
+/**
+ * Builds aligned YES/NO candles from `getPriceHistory`, whose series are ordered by position
+ * token index (YES first). Each returned interval has a candle for both outcomes once each has
+ * traded, when `fillGaps` is set; otherwise an outcome without trades in an interval is `null`.
+ * @param history - Per-token trade records, as returned by `getPriceHistory`.
+ * @param intervalMillis - Candle interval in **milliseconds**.
+ * @param fromTimeMillis - Range start (Unix milliseconds, inclusive).
+ * @param toTimeMillis - Range end (Unix milliseconds, exclusive).
+ * @param options - Gap filling and per-candle trade statistics.
+ * @throws {PolynanceApiError} if intervalMillis is not positive.
+ */
+export function mergePriceHistory(
+    history: TradeRecord[][],
+    intervalMillis: number,
+    fromTimeMillis: number,
+    toTimeMillis: number,
+    options: CandleOptions = {}
+): OutcomeCandle[] {
+    assertInterval(intervalMillis, 'mergePriceHistory');
+    const [yes, no] = [history[0] ?? [], history[1] ?? []]
+        .map((records) => generatePriceChart(records, intervalMillis, fromTimeMillis, toTimeMillis, options));
+    const times = Array.from(new Set([...yes, ...no].map((c) => c.time))).sort((a, b) => a - b);
+    if (times.length === 0) {
+        return [];
+    }
+
+    // Series filled up to an open-ended range can stop at different intervals, so fill across the union.
+    const allTimes = options.fillGaps
+        ? Array.from({ length: Math.round((times[times.length - 1] - times[0]) * 1000 / intervalMillis) + 1 },
+            (_, i) => Math.floor((times[0] * 1000 + i * intervalMillis) / 1000))
+        : times;
+    const align = (series: Candle[]) => {
+        const byTime = new Map(series.map((c) => [c.time, c]));
+        let previous: Candle | null = null;
+        return allTimes.map((time) => {
+            const candle = byTime.get(time);
+            if (candle) return (previous = candle);
+            return options.fillGaps && previous ? filledCandle(time, previous.close, options.tradeStats ?? false) : null;
+        });
+    };
+    const yesAligned = align(yes);
+    const noAligned = align(no);
+    return allTimes.map((time, i) => ({ time, yes: yesAligned[i], no: noAligned[i] }));
+}
@@ -3,9 +3,41 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { Wallet } from "@ethersproject/wallet";
 import { JsonRpcProvider, JsonRpcSigner } from "@ethersproject/providers";
 import { constants, ethers } from "ethers";
-import { Chain, ClobClient, getContractConfig, OpenOrder, OrderType, Side,UserOrder } from '@polymarket/clob-client';
-import {SignedOrder} from "@polymarket/order-utils";
+import { Chain, ClobClient, COLLATERAL_TOKEN_DECIMALS, OpenOrder, OrderType, Side,UserMarketOrder,UserOrder } from '@polymarket/clob-client';
+import {SignedOrder, Side as OrderSide} from "@polymarket/order-utils";
 import { PolynanceApiError, PolynanceErrorCode } from './panic'; // Import from new error file
+import { computeBackoffDelay, resolveBackoffPolicy } from './backoff';
+import { attachRetryInterceptor, getAttemptCount } from './retry';
+import { MemoryCacheStore, ResponseCache } from './cache';
+import { RedisCacheStore } from './redis';
+import { Schema, Schemas, validateData } from './validation';
+import { collectAll, paginate, paginateByCursor } from './pagination';
+import { minimunAbi } from './abi';
+import { LimitlessAdapter } from './providers/limitless';
+import { TrueMarketAdapter } from './providers/truemarket';
+import { OrderAdapterRegistry, isProviderOrder } from './providers/registry';
+import { quoteOrderBook } from './orderbook';
+import { LiveOrderBook, PolymarketBookFeed } from './livebook';
+import { LiveCandles } from './livecandles';
+import { ArbitrageScanner } from './arbitrage';
+import { EventLinker, loadEventLinkOverrides } from './linking';
+import { PortfolioSource, buildPortfolio } from './portfolio';
+import { matchesActivityQuery, toEpochSeconds } from './activity';
+import { CtfLedgerReader, decodeLedgerLog } from './ledger';
+import { AllowanceManager } from './allowances';
+import { resolveNetwork } from './network';
+import { fromDecimalAmount, readWalletBalances, toTokenBalance } from './balances';
+import { PaperAccount, isPaperOrder, toPaperOpenOrder, toPaperOrderResult } from './paper';
+import { OrderTracker, fromOrderResult, fromPolymarketCancel, fromPolymarketOrder, mergeCancelResults, polymarketOrderResult } from './orders';
+import {
+    TradeStreamCursor,
+    STABLE_CONNECTION_MS,
+    SseConnection,
+    SseTransportHandlers,
+    openEventSourceConnection,
+    openFetchConnection,
+    resolveSseTransport
+} from './sse';
 import {
     PredictionProvider,
     Market,
@@ -19,24 +51,64 @@ import {
     ExecuteOrderParams,
     TradeUpdateHandlers,
     TradeSubscription,
+    TradeSubscriptionOptions,
+    TradeConnectionState,
+    ReconnectPolicy,
+    SseTransportKind,
+    CachedMethod,
+    ValidationMode,
+    PageIterationOptions,
+    MarketIterationOptions,
     MarketMatchResult,
     PolynanceClientOptions,
-    Candle,
-    PolyOrder
+    PolyOrder,
+    OrderAdapter,
+    OrderResult,
+    ProviderOrder,
+    TrackedOrder,
+    WaitForFillOptions,
+    CancelOrdersResult,
+    PaperAccountSnapshot,
+    PaperOrder,
+    PaperOrderState,
+    PaperTradingOptions,
+    OrderQuote,
+    OrderTypeName,
+    PositionToken,
+    LiveOrderBookHandlers,
+    LiveOrderBookOptions,
+    ArbitrageOpportunity,
+    ArbitrageScanOptions,
+    ArbitrageWatchHandlers,
+    ArbitrageWatchOptions,
+    CanonicalEvent,
+    Portfolio,
+    PortfolioWarning,
+    TraderActivity,
+    TraderActivityIterationOptions,
+    TraderActivityPage,
+    TraderActivityQuery,
+    LedgerReaderOptions,
+    LedgerReadOptions,
+    LedgerReadResult,
+    LedgerEntry,
+    PositionTxOptions,
+    PositionTxReceipt,
+    AllowanceCheckOptions,
+    AllowanceReport,
+    NetworkProfile,
+    TokenBalance,
+    WalletSnapshot,
+    TradeFeed,
+    LiveCandleHandlers,
+    CandleSubscriptionOptions
 } from './types';
 
-const minimunAbi = {
-    "usdc": [
-      "function approve(address, uint256) returns (bool)",
-      "function allowance(address, address) view returns (uint256)",
-      "function balanceOf(address) view returns (uint256)"
-    ],
-    "ctf": [
-      "function setApprovalForAll(address, bool) returns (bool)",
-      "function isApprovedForAll(address, address) view returns (bool)",
-      "function balanceOf(address, uint256) view returns (uint256)"
-    ]
-}
+/** Index sets of the two outcomes of a binary condition. */
+const BINARY_PARTITION = [1, 2];
+
+/** Wallet, condition and contracts resolved for a split, merge or redeem. */
+type PositionContext = Awaited<ReturnType<PolynanceSDK['positionContext']>>;
 
 // --- Polynance Client Class ---
 
@@ -50,7 +122,24 @@ export class PolynanceSDK {
     public polymarketClob: ClobClient;
     private wallet?: Wallet | JsonRpcSigner;
     private walletAddress?: string;
-    private pendingOrderIds: string[] = [];
+    /** Follows submitted orders until they are matched, cancelled, expired or failed. */
+    public readonly orderTracker: OrderTracker;
+    /** Links markets of different providers into canonical events; see `getCanonicalEvent`. */
+    public readonly eventLinker: EventLinker;
+    /** Checks and sets token approvals; runs before every Polymarket order. */
+    public readonly allowances: AllowanceManager;
+    /** Chain, CLOB endpoint, contracts and RPC the client trades on. */
+    public readonly network: NetworkProfile;
+    private networkProvider?: JsonRpcProvider;
+    private reconnectPolicy?: ReconnectPolicy;
+    private sseTransport: SseTransportKind;
+    private sseHeaders?: Record<string, string>;
+    private responseCache?: ResponseCache;
+    private validationMode: ValidationMode;
+    private orderAdapters = new OrderAdapterRegistry();
+    private paperAccount: PaperAccount | null = null;
+    /** Time in force requested through `ExecuteOrderParams.orderType` / `mode`, keyed by built order. */
+    private orderTypes = new WeakMap<object, OrderTypeName>();
 
     /**
      * Creates an instance of the PolynanceClient.
@@ -60,6 +149,20 @@ export class PolynanceSDK {
         const apiBaseUrl = options?.apiBaseUrl || 'https://api.polynance.ag';
         this.sseBaseUrl = options?.sseBaseUrl || 'https://api.polynance.ag'; // Default SSE URL
         const timeout = options?.timeout || 100000; // Default timeout 100s
+        this.reconnectPolicy = options?.reconnect;
+        this.sseTransport = options?.sseTransport || 'auto';
+        this.sseHeaders = options?.sseHeaders;
+        this.validationMode = options?.validation || 'warn';
+        this.orderAdapters.register(new LimitlessAdapter(options?.limitless));
+        this.orderAdapters.register(new TrueMarketAdapter(options?.truemarket));
+        options?.orderAdapters?.forEach((adapter) => this.orderAdapters.register(adapter));
+        this.orderTracker = new OrderTracker((order) => this.fetchOrderStatus(order), options?.orderTracking);
+        this.eventLinker = new EventLinker(options?.eventLinking);
+        this.network = resolveNetwork(options?.network);
+        this.allowances = new AllowanceManager(this.network.contracts, options?.allowances);
+        if (options?.paperTrading) {
+            this.enablePaperTrading(options.paperTrading === true ? undefined : options.paperTrading);
+        }
 
         this.apiClient = axios.create({
             baseURL: apiBaseUrl,
@@ -68,6 +171,17 @@ export class PolynanceSDK {
                 'Content-Type': 'application/json',
             },
         });
+        if (options?.retry !== false) {
+            attachRetryInterceptor(this.apiClient, options?.retry ?? {});
+        }
+        // Caching is opt-in: enabled by `cache`, or by `redisUrl` unless `cache` is `false`.
+        const cacheEnabled = options?.cache === undefined ? !!options?.redisUrl : options.cache !== false;
+        if (cacheEnabled) {
+            const cacheOptions = typeof options?.cache === 'object' ? options.cache : undefined;
+            const store = cacheOptions?.store
+                ?? (options?.redisUrl ? new RedisCacheStore(options.redisUrl) : new MemoryCacheStore(cacheOptions?.maxEntries));
+            this.responseCache = new ResponseCache(store, cacheOptions);
+        }
         this.wallet = options?.wallet;
         if(this.wallet && this.wallet instanceof JsonRpcSigner) {
             if(options?.walletAddress) {
@@ -76,7 +190,7 @@ export class PolynanceSDK {
                 throw new Error("walletAddress is required when wallet is JsonRpcSigner");
             }
         }
-        this.polymarketClob = new ClobClient("https://clob.polymarket.com/", Chain.POLYGON)
+        this.polymarketClob = new ClobClient(this.network.clobUrl, this.network.chainId as Chain)
 
         // Optional: Interceptors can also use handleError
         // this.apiClient.interceptors.response.use(response => response, error => {
@@ -87,8 +201,8 @@ export class PolynanceSDK {
     public async initCreds(wallet: JsonRpcSigner|Wallet) {
         try {
             const clobClient = new ClobClient(
-                "https://clob.polymarket.com/", 
-                Chain.POLYGON, 
+                this.network.clobUrl,
+                this.network.chainId as Chain,
                 wallet
             )
             let creds = await clobClient.deriveApiKey();
@@ -98,8 +212,8 @@ export class PolynanceSDK {
             }
             console.log("[initCredsinitCreds] initCreds", creds);
             this.polymarketClob = new ClobClient(
-                "https://clob.polymarket.com/", 
-                Chain.POLYGON, 
+                this.network.clobUrl,
+                this.network.chainId as Chain,
                 wallet,
                 creds
             )
@@ -108,91 +222,289 @@ export class PolynanceSDK {
         }
     }
 
-    public async buildOrder(params: ExecuteOrderParams, wallet?: JsonRpcSigner|Wallet) {
+    /**
+     * Registers a trading adapter for a prediction provider, replacing any existing one.
+     * Orders for `adapter.provider` are then built and executed through it.
+     * @param adapter - The adapter to register.
+     */
+    public registerOrderAdapter(adapter: OrderAdapter<any>) {
+        this.orderAdapters.register(adapter);
+    }
+
+    /**
+     * Switches to paper trading with a fresh virtual account.
+     * `buildOrder` / `executeOrder` then fill against the live order book instead of sending orders,
+     * and balances, open orders and cancellations operate on the virtual account.
+     * @param options - Starting balances.
+     */
+    public enablePaperTrading(options?: PaperTradingOptions) {
+        this.dropPaperOrders();
+        this.paperAccount = new PaperAccount(options);
+    }
+
+    /**
+     * Leaves paper-trading mode and discards the virtual account.
+     */
+    public disablePaperTrading() {
+        this.dropPaperOrders();
+        this.paperAccount = null;
+    }
+
+    /** Whether orders are simulated instead of sent. */
+    public get isPaperTrading(): boolean {
+        return this.paperAccount !== null;
+    }
+
+    /**
+     * Returns the balances, open orders and fills of the paper-trading account, or `null` outside paper-trading mode.
+     */
+    public getPaperAccount(): PaperAccountSnapshot | null {
+        return this.paperAccount?.snapshot() ?? null;
+    }
+
+    public async buildOrder(params: ExecuteOrderParams, wallet?: JsonRpcSigner|Wallet): Promise<SignedOrder|ProviderOrder> {
+        const paper = this.paperAccount !== null;
 
-        if(params.provider!=="polymarket") {
-            throw new Error("Now Only Polymarket is supported");
+        const adapter = !paper && params.provider!=="polymarket" ? this.orderAdapters.get(params.provider) : undefined;
+        if(!paper && params.provider!=="polymarket" && !adapter) {
+            throw new Error(`Provider ${params.provider} is not supported for trading. Supported: polymarket, ${this.orderAdapters.providers().join(", ")}`);
         }
 
-        if(!this.polymarketClob.creds) {
-            const w = wallet||this.wallet;
+        if(!paper && params.provider==="polymarket" && this.network.readOnly) {
+            throw new PolynanceApiError(`Polymarket orders cannot be signed on the read-only network '${this.network.name}'.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName: 'buildOrder', context: { chainId: this.network.chainId } });
+        }
+
+        const w = wallet||this.wallet;
+        if(!paper && params.provider==="polymarket" && !this.polymarketClob.creds) {
             if(!w) {
                 throw new Error("Wallet is required to execute order");
             }
             await this.initCreds(w)
         }
 
-        const exchange =await(async () =>{
-            try{
-            const isSlug = params.marketIdOrSlug.includes("-");
-            if(isSlug) {
-                const exchange = await this.getExchangeBySlug(params.marketIdOrSlug)
-                return exchange[0]
-            } else {
-                return await this.getExchange("polymarket", params.marketIdOrSlug)
-            }}catch(e) {
-                console.log(e)
-                return null
-            }
-        })();
+        const exchange = await this.findExchange(params.provider, params.marketIdOrSlug);
 
         if(!exchange) {
             throw this.handleError(new Error("Exchange not found"), 'buildOrder', { params });
         }
 
-        const uo = await(async ()=>{
+        const positionToken = exchange.position_tokens.find((pt)=>pt.name.toLowerCase()==params.positionIdOrName.toLowerCase());
+        if(!positionToken) {
+            throw this.handleError(new Error("Position token not found"), 'buildOrder', { params });
+        }
+        const isMarket = params.mode === 'market';
+        const orderType: OrderTypeName = params.orderType ?? (isMarket ? 'FOK' : 'GTC');
+        if(isMarket && (orderType === 'GTC' || orderType === 'GTD')) {
+            throw new PolynanceApiError(`Market orders must be FOK or FAK, got ${orderType}.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName: 'buildOrder', context: { params } });
+        }
+
+        let price = params.price ? params.price : Number(positionToken.price);
+        let size = params.size ? params.size :  params.usdcFlowAbs / price;
+        if((isMarket || params.maxSlippageBps !== undefined) && !adapter?.enforcesSlippage) {
+            const q = await this.quoteToken(params, exchange, positionToken, 'buildOrder');
+            this.assertAcceptableQuote(q, params, orderType);
+            if(isMarket) {
+                price = q.worstPrice!;
+                size = q.filledSize;
+            }
+        }
+        console.log("report of ctf tokenQty", params.buyOrSell=="BUY" ? size : -size);
+        console.log("usdcFlow              ", params.usdcFlowAbs);
+        console.log(`                      $${price};${price*size}==${params.usdcFlowAbs}`);
+
+        if(paper) {
+            const paperOrder: PaperOrder = {
+                provider: params.provider,
+                paper: true,
+                exchangeId: exchange.id,
+                tokenId: positionToken.token_id,
+                outcome: positionToken.name,
+                side: params.buyOrSell,
+                price,
+                size,
+                expiration: params.expiration ?? 0,
+            };
+            this.orderTypes.set(paperOrder, orderType);
+            return paperOrder;
+        }
+
+        if(adapter) {
+            if(!w) {
+                throw new Error("Wallet is required to execute order");
+            }
             try {
-                const positionToken = exchange.position_tokens.find((pt)=>pt.name.toLowerCase()==params.positionIdOrName.toLowerCase());
-                if(!positionToken) {
-                    throw new Error("Position token not found");
-                }
-                const price = params.price ? params.price : Number(positionToken.price);
-                const size = params.size ? params.size :  params.usdcFlowAbs / price;
-                console.log("report of ctf tokenQty", params.buyOrSell=="BUY" ? size : -size);
-                console.log("usdcFlow              ", params.usdcFlowAbs);
-                console.log(`                      $${price};${price*size}==${params.usdcFlowAbs}`);
-                const userOrder: UserOrder = {
-                    ...params,
-                    tokenID: positionToken.token_id,
-                    side: params.buyOrSell=="BUY" ? Side.BUY : Side.SELL,
-                    price: price,
-                    size: size,
-                }
-                return userOrder;
+                const built = await adapter.buildOrder({ params, exchange, positionToken, price, size, signer: w });
+                this.orderTypes.set(built, orderType);
+                return built;
             }catch(e) {
-               return null;
+                throw this.handleError(e, 'buildOrder', { params });
             }
-        })();
+        }
+
+        if(isMarket) {
+            const umo: UserMarketOrder = {
+                tokenID: positionToken.token_id,
+                side: params.buyOrSell=="BUY" ? Side.BUY : Side.SELL,
+                price,
+                // BUY amounts are in USDC, SELL amounts in shares.
+                amount: params.buyOrSell=="BUY" ? (params.size ? price*size : params.usdcFlowAbs) : size,
+                feeRateBps: params.feeRateBps,
+                nonce: params.nonce,
+                taker: params.taker,
+            };
+            try {
+                const signedOrder = await this.polymarketClob.createMarketOrder(umo);
+                this.orderTypes.set(signedOrder, orderType);
+                return signedOrder;
+            }catch(e) {
+                throw this.handleError(e, 'buildOrder', { userMarketOrder: umo });
+            }
+        }
 
-        if(!uo) {
-            throw this.handleError(new Error("UserOrder not found"), 'buildOrder', { params });
+        const uo: UserOrder = {
+            ...params,
+            tokenID: positionToken.token_id,
+            side: params.buyOrSell=="BUY" ? Side.BUY : Side.SELL,
+            price: price,
+            size: size,
         }
 
         try {
             const signedOrder = await this.polymarketClob.createOrder(uo);
+            this.orderTypes.set(signedOrder, orderType);
             return signedOrder;
         }catch(e) {
             throw this.handleError(e, 'buildOrder', { userOrder: uo });
         }
     }
 
-    public async executeOrder(order: SignedOrder,orderType: OrderType=OrderType.GTC,rpcProvider?: JsonRpcProvider,wallet?: JsonRpcSigner|Wallet): Promise<OpenOrder|any> {
+    /**
+     * Quotes an order against the exchange's current order book without placing it.
+     * Orders with `size` are quoted for that many shares; otherwise a BUY spends and a SELL receives `usdcFlowAbs` USDC.
+     * `price`, if set, is the limit beyond which levels are not taken.
+     * @param params - The order, as it would be passed to `buildOrder`.
+     * @returns Expected average and worst price, filled and unfilled amounts, price impact versus mid, and fees.
+     * @throws {PolynanceApiError} If the exchange, position token or its order book is not found.
+     */
+    public async quote(params: ExecuteOrderParams): Promise<OrderQuote> {
+        const methodName = 'quote';
+        const context = { params };
         try {
-            if(!wallet && !this.wallet) {
-                throw new Error("Wallet is required to approve allowance");
+            const exchange = await this.requireExchange(params.provider, params.marketIdOrSlug, methodName);
+            const positionToken = exchange.position_tokens.find((pt)=>pt.name.toLowerCase()==params.positionIdOrName.toLowerCase());
+            if (!positionToken) {
+                throw new PolynanceApiError(`Position token ${params.positionIdOrName} not found.`, PolynanceErrorCode.NOT_FOUND, { methodName, context });
             }
-            if(!this.wallet?.provider&&!rpcProvider) {
-                throw new Error("Wallet is required to execute order");
+            return await this.quoteToken(params, exchange, positionToken, methodName);
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    private async quoteToken(params: ExecuteOrderParams, exchange: Exchange, positionToken: PositionToken, methodName: string): Promise<OrderQuote> {
+        const books = await this.getOrderbook(params.provider, exchange.id);
+        const book = books[positionToken.token_id];
+        if (!book) {
+            throw new PolynanceApiError(`No order book for position token ${positionToken.token_id}.`, PolynanceErrorCode.NOT_FOUND, { methodName, context: { params } });
+        }
+        const amount = params.size ? { size: params.size } : { usdc: params.usdcFlowAbs };
+        // Market orders take whatever the book offers; only limit orders are bounded by `price`.
+        const limitPrice = params.mode === 'market' ? undefined : params.price;
+        return {
+            provider: params.provider,
+            exchangeId: exchange.id,
+            tokenId: positionToken.token_id,
+            ...quoteOrderBook(book, params.buyOrSell, amount, { limitPrice, feeRateBps: params.feeRateBps }),
+        };
+    }
+
+    /**
+     * Rejects an order whose quote shows too little liquidity or too much slippage.
+     * Resting limit orders (GTC/GTD) only need liquidity for the part that fills immediately;
+     * one that would not fill at all simply rests, so only its immediate fill is checked for slippage.
+     * @private
+     */
+    private assertAcceptableQuote(q: OrderQuote, params: ExecuteOrderParams, orderType: OrderTypeName) {
+        const methodName = 'buildOrder';
+        const reject = (reason: string, message: string) => new PolynanceApiError(message, PolynanceErrorCode.ORDER_REJECTED, {
+            methodName,
+            context: { reason, params, quote: { filledSize: q.filledSize, averagePrice: q.averagePrice, bestPrice: q.bestPrice, worstPrice: q.worstPrice, unfilledSize: q.unfilledSize, unfilledUsdc: q.unfilledUsdc } },
+        });
+        const takerOnly = params.mode === 'market' || orderType === 'FOK' || orderType === 'FAK';
+        if (q.filledSize <= 0 || q.averagePrice === null || q.bestPrice === null) {
+            if (!takerOnly) return;
+            throw reject('liquidity', `No liquidity on the ${params.buyOrSell === 'BUY' ? 'ask' : 'bid'} side of the book.`);
+        }
+        // Allow for rounding dust when comparing the requested and fillable amounts.
+        if (orderType === 'FOK' && (q.unfilledSize > 1e-6 || q.unfilledUsdc > 1e-6)) {
+            throw reject('liquidity', `The book cannot fill the whole ${orderType} order.`);
+        }
+        if (params.maxSlippageBps !== undefined) {
+            const slippage = params.buyOrSell === 'BUY'
+                ? (q.averagePrice - q.bestPrice) / q.bestPrice
+                : (q.bestPrice - q.averagePrice) / q.bestPrice;
+            const slippageBps = slippage * 10000;
+            if (slippageBps > params.maxSlippageBps) {
+                throw reject('slippage', `Expected slippage of ${slippageBps.toFixed(1)} bps exceeds maxSlippageBps ${params.maxSlippageBps}.`);
+            }
+        }
+    }
+
+    /**
+     * Submits an order returned by `buildOrder`.
+     * @param orderType - Time in force. Defaults to the one requested when the order was built (`ExecuteOrderParams.orderType` / `mode`), then GTC.
+     */
+    public async executeOrder(order: SignedOrder|ProviderOrder,orderType?: OrderType,rpcProvider?: JsonRpcProvider,wallet?: JsonRpcSigner|Wallet): Promise<OpenOrder|OrderResult|any> {
+        orderType = orderType ?? (this.orderTypes.get(order) as OrderType | undefined) ?? OrderType.GTC;
+        if(isPaperOrder(order)) {
+            try {
+                return await this.executePaperOrder(order, orderType);
+            }catch(e) {
+                this.handleError(e, 'executeOrder', { order });
+                return null;
+            }
+        }
+        if(isProviderOrder(order)) {
+            try {
+                const adapter = this.orderAdapters.get(order.provider);
+                if(!adapter) {
+                    throw new Error(`No order adapter registered for provider ${order.provider}`);
+                }
+                const signer = wallet||this.wallet;
+                if(!signer) {
+                    throw new Error("Wallet is required to execute order");
+                }
+                const result = await adapter.executeOrder(order, { orderType, signer });
+                if(result.orderId) {
+                    this.orderTracker.track(fromOrderResult({ ...result, orderId: result.orderId }));
+                }
+                return result;
+            }catch(e) {
+                this.handleError(e, 'executeOrder', { order });
+                return null;
+            }
+        }
+        try {
+            const signer = this.connectedWallet(wallet, rpcProvider, 'executeOrder');
+            // A BUY spends makerAmount USDC through the exchange that matches it; a SELL only needs
+            // the outcome-token approvals of that exchange (and, on neg-risk markets, the adapter).
+            const negRisk = (await this.polymarketClob.getNegRisk(order.tokenId)) === true;
+            const allowanceOptions: AllowanceCheckOptions = order.side === OrderSide.BUY
+                ? { spenders: [negRisk ? 'negRiskExchange' : 'exchange'], tokens: ['usdc'], required: Number(order.makerAmount) / 10 ** COLLATERAL_TOKEN_DECIMALS }
+                : { spenders: negRisk ? ['negRiskExchange', 'negRiskAdapter'] : ['exchange'], tokens: ['ctf'] };
+            const allowances = this.allowances.autoApprove
+                ? await this.allowances.ensure(signer, allowanceOptions)
+                : await this.allowances.check(signer, await signer.getAddress(), allowanceOptions);
+            if(!allowances.ready) {
+                throw new PolynanceApiError('Token allowances are missing for this order.', PolynanceErrorCode.INSUFFICIENT_ALLOWANCE, {
+                    methodName: 'executeOrder',
+                    context: { missing: allowances.statuses.filter((s) => !s.sufficient).map((s) => `${s.token}->${s.spender}`) },
+                });
             }
-            const provider = this.wallet?.provider ? this.wallet : rpcProvider;
-            if(!provider) throw new Error("Provider is required to execute order");
-            await this.approveAllowanceBalance(provider);
             const res = await this.polymarketClob.postOrder(order,orderType);
             if(res?.orderID) {
                 const op = await this.polymarketClob.getOrder(res.orderID);
-                if(op.status.toLowerCase() !== "matched") {
-                    this.pendingOrderIds.push(res.orderID);
-                }
+                this.orderTracker.track(fromPolymarketOrder(op));
                 return op;
             }
             this.proposePrice(order);
@@ -203,126 +515,698 @@ export class PolynanceSDK {
         }
     }
 
+    /**
+     * Fills a paper order against the current order book and tracks what rests.
+     * @returns The same shape real trading returns: an `OpenOrder` for Polymarket, an `OrderResult` otherwise.
+     * @private
+     */
+    private async executePaperOrder(order: PaperOrder, orderType: OrderType): Promise<OpenOrder|OrderResult> {
+        const account = this.paperAccount;
+        if(!account) {
+            throw new Error("Paper orders can only be executed in paper-trading mode");
+        }
+        const books = await this.getOrderbook(order.provider as PredictionProvider, order.exchangeId);
+        const state = account.place(order, orderType, books[order.tokenId]);
+        this.orderTracker.track(this.toTrackedPaperOrder(state));
+        return order.provider === 'polymarket' ? toPaperOpenOrder(state) : toPaperOrderResult(state);
+    }
+
+    private toTrackedPaperOrder(state: PaperOrderState) {
+        const { orderId, provider, status, side, price, size, filledSize, tokenId } = state;
+        return { orderId, provider, status, side, price, size, filledSize, tokenId };
+    }
+
+    /**
+     * Stops tracking the orders of the current paper account.
+     * @private
+     */
+    private dropPaperOrders() {
+        const account = this.paperAccount;
+        if (!account) return;
+        for (const order of this.orderTracker.list()) {
+            if (account.has(order.orderId)) this.orderTracker.untrack(order.orderId);
+        }
+    }
+
+    /**
+     * Returns the ids of submitted orders that have not reached a final state yet.
+     * In paper-trading mode, only the virtual account's orders are listed.
+     */
     public getPendingOrdersIds(): string[] {
-        return [...this.pendingOrderIds];
+        const account = this.paperAccount;
+        return this.orderTracker.pending()
+            .filter((o) => !account || account.has(o.orderId))
+            .map((o) => o.orderId);
     }
 
+    /**
+     * Checks once whether an order is matched.
+     * @deprecated Use `waitForFill`, which keeps waiting until the order is filled or ends.
+     */
     public async waitOrderMatched(orderId: string): Promise<boolean> {
         try {
             const op = await this.polymarketClob.getOrder(orderId);
+            this.orderTracker.update(orderId, fromPolymarketOrder(op));
             return op.status.toLowerCase() === "matched";
         }catch(e) {
             return false;
         }
     }
 
-    private async approveAllowanceBalance(
-        provider: JsonRpcProvider|Wallet|JsonRpcSigner,
-    ) {
-        try{
-
-            const contractConfig = getContractConfig(Chain.POLYGON);
-           
-            //TODO
-            const walletAddress = provider instanceof Wallet ? await provider.getAddress() : this.walletAddress;
-            const usdc = new ethers.Contract(contractConfig.collateral, minimunAbi["usdc"], provider);
-            const ctf = new ethers.Contract(contractConfig.conditionalTokens, minimunAbi["ctf"], provider);
-
-            const usdcAllowanceNegRiskAdapterPromise = usdc.allowance(
-                walletAddress,
-                contractConfig.negRiskAdapter,
-              );
-              
-              const usdcAllowanceNegRiskExchangePromise = usdc.allowance(
-                  walletAddress,
-                  contractConfig.negRiskExchange,
-              );
-              
-              const conditionalTokensAllowanceNegRiskExchangePromise = ctf.isApprovedForAll(
-                  walletAddress,
-                  contractConfig.negRiskExchange,
-              );
-              
-              const conditionalTokensAllowanceNegRiskAdapterPromise = ctf.isApprovedForAll(
-                  walletAddress,
-                  contractConfig.negRiskAdapter,
-              );
-
-              const usdcBalancePromise = usdc.balanceOf(walletAddress);
-
-              
-
-              const [
-                usdcAllowanceNegRiskAdapter,
-                usdcAllowanceNegRiskExchange,
-                conditionalTokensAllowanceNegRiskExchange,
-                conditionalTokensAllowanceNegRiskAdapter,
-                usdcBalance,
-              ] = await Promise.all([
-                usdcAllowanceNegRiskAdapterPromise,
-                usdcAllowanceNegRiskExchangePromise,
-                conditionalTokensAllowanceNegRiskExchangePromise,
-                conditionalTokensAllowanceNegRiskAdapterPromise,
-                usdcBalancePromise,
-              ]);
-              
-              let txn;
-              if (!usdcAllowanceNegRiskAdapter.gt(constants.Zero)) {
-                txn = await usdc.approve(contractConfig.negRiskAdapter, constants.MaxUint256, {
-                    gasPrice: 100_000_000_000,
-                    gasLimit: 200_000,
+    /**
+     * Waits until an order is fully matched, following it through the order tracker.
+     * @param orderId - The order id (or transaction hash for on-chain trades).
+     * @param options - Timeout, and the provider if the order was not placed through this client.
+     * @returns The matched order.
+     * @throws {PolynanceApiError} `ORDER_NOT_FILLED` if the order is cancelled, expires or fails; `TIMEOUT_ERROR` on timeout.
+     */
+    public waitForFill(orderId: string, options?: WaitForFillOptions): Promise<TrackedOrder> {
+        return this.orderTracker.waitForFill(orderId, options);
+    }
+
+    /**
+     * Lists the wallet's resting orders on a provider.
+     * Tracked orders found in the list are updated with their latest state.
+     * @param protocol - The provider to query.
+     * @param marketIdOrSlug - Only list orders on this exchange.
+     * @returns The open orders.
+     * @throws {PolynanceApiError} If the provider cannot list orders or the request fails.
+     */
+    public async getOpenOrders(protocol: PredictionProvider = 'polymarket', marketIdOrSlug?: string): Promise<OrderResult[]> {
+        const methodName = 'getOpenOrders';
+        const context = { protocol, marketIdOrSlug };
+        try {
+            const exchange = marketIdOrSlug ? await this.requireExchange(protocol, marketIdOrSlug, methodName) : undefined;
+            let orders: OrderResult[];
+            if (this.paperAccount) {
+                orders = this.paperAccount.openOrders()
+                    .filter((o) => o.provider === protocol && (!exchange || o.exchangeId === exchange.id))
+                    .map(toPaperOrderResult);
+            } else if (protocol === 'polymarket') {
+                await this.ensureClobCreds(methodName);
+                const pages = exchange
+                    ? await Promise.all(exchange.position_tokens.map((pt) => this.polymarketClob.getOpenOrders({ asset_id: pt.token_id })))
+                    : [await this.polymarketClob.getOpenOrders()];
+                orders = pages.flatMap((page) => this.assertClobResponse(page, methodName)).map(polymarketOrderResult);
+            } else {
+                const adapter = this.requireAdapter(protocol, 'getOpenOrders', methodName);
+                orders = await adapter.getOpenOrders!({ signer: this.requireWallet(methodName), exchange });
+            }
+            for (const order of orders) {
+                if (order.orderId) this.orderTracker.update(order.orderId, { status: order.status, filledSize: order.filledSize ?? 0 });
+            }
+            return orders;
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Cancels a single order.
+     * @param orderId - The order to cancel.
+     * @param provider - The provider the order was placed on. Defaults to the tracked order's provider, then Polymarket.
+     * @returns Which orders were and were not cancelled.
+     * @throws {PolynanceApiError} If the provider cannot cancel orders or the request fails.
+     */
+    public async cancelOrder(orderId: string, provider?: PredictionProvider): Promise<CancelOrdersResult> {
+        return this.cancelOrders([orderId], provider);
+    }
+
+    /**
+     * Cancels several orders, grouping them by provider.
+     * Cancelled orders are marked `cancelled` in the order tracker. In paper-trading mode only the
+     * virtual account is touched; ids it does not know are reported in `notCancelled`.
+     * @param orderIds - The orders to cancel.
+     * @param provider - The provider of every order. Defaults to each tracked order's provider, then Polymarket.
+     * @returns Which orders were and were not cancelled.
+     * @throws {PolynanceApiError} If a provider cannot cancel orders or a request fails.
+     */
+    public async cancelOrders(orderIds: string[], provider?: PredictionProvider): Promise<CancelOrdersResult> {
+        const methodName = 'cancelOrders';
+        const context = { orderIds, provider };
+        if (orderIds.length === 0) {
+            return { cancelled: [], notCancelled: {} };
+        }
+        try {
+            // A paper session never reaches a real venue, even for ids it does not know.
+            if (this.paperAccount) {
+                return this.applyCancellation(this.cancelPaperOrders(orderIds));
+            }
+            const groups = new Map<string, string[]>();
+            for (const orderId of orderIds) {
+                const p = provider ?? this.orderTracker.get(orderId)?.provider ?? 'polymarket';
+                groups.set(p, [...(groups.get(p) ?? []), orderId]);
+            }
+            const results = await Promise.all(Array.from(groups.entries()).map(async ([p, ids]) => {
+                if (p === 'polymarket') {
+                    await this.ensureClobCreds(methodName);
+                    return fromPolymarketCancel(this.assertClobResponse(await this.polymarketClob.cancelOrders(ids), methodName));
+                }
+                const adapter = this.requireAdapter(p, 'cancelOrders', methodName);
+                return adapter.cancelOrders!(ids, { signer: this.requireWallet(methodName) });
+            }));
+            return this.applyCancellation(mergeCancelResults(results));
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Cancels all of the wallet's orders on one exchange.
+     * @param protocol - The provider the exchange belongs to.
+     * @param marketIdOrSlug - The exchange id or slug.
+     * @returns Which orders were and were not cancelled.
+     * @throws {PolynanceApiError} If the exchange is not found, the provider cannot cancel orders or a request fails.
+     */
+    public async cancelAllForMarket(protocol: PredictionProvider, marketIdOrSlug: string): Promise<CancelOrdersResult> {
+        const methodName = 'cancelAllForMarket';
+        const context = { protocol, marketIdOrSlug };
+        try {
+            const exchange = await this.requireExchange(protocol, marketIdOrSlug, methodName);
+            if (this.paperAccount) {
+                const ids = this.paperAccount.openOrders()
+                    .filter((o) => o.provider === protocol && o.exchangeId === exchange.id)
+                    .map((o) => o.orderId);
+                return this.applyCancellation(this.cancelPaperOrders(ids));
+            }
+            if (protocol === 'polymarket') {
+                await this.ensureClobCreds(methodName);
+                const results = await Promise.all(exchange.position_tokens.map(async (pt) =>
+                    fromPolymarketCancel(this.assertClobResponse(await this.polymarketClob.cancelMarketOrders({ asset_id: pt.token_id }), methodName))
+                ));
+                return this.applyCancellation(mergeCancelResults(results));
+            }
+            const adapter = this.requireAdapter(protocol, 'cancelMarketOrders', methodName);
+            return this.applyCancellation(await adapter.cancelMarketOrders!(exchange, { signer: this.requireWallet(methodName) }));
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Cancels every open order of the wallet on a provider.
+     * Providers other than Polymarket need to support listing and cancelling orders across markets.
+     * @param protocol - The provider. Defaults to Polymarket.
+     * @returns Which orders were and were not cancelled.
+     * @throws {PolynanceApiError} If the provider cannot cancel orders or a request fails.
+     */
+    public async cancelAll(protocol: PredictionProvider = 'polymarket'): Promise<CancelOrdersResult> {
+        const methodName = 'cancelAll';
+        const context = { protocol };
+        try {
+            if (this.paperAccount) {
+                const ids = this.paperAccount.openOrders().filter((o) => o.provider === protocol).map((o) => o.orderId);
+                return this.applyCancellation(this.cancelPaperOrders(ids));
+            }
+            if (protocol === 'polymarket') {
+                await this.ensureClobCreds(methodName);
+                return this.applyCancellation(fromPolymarketCancel(this.assertClobResponse(await this.polymarketClob.cancelAll(), methodName)));
+            }
+            const adapter = this.requireAdapter(protocol, 'getOpenOrders', methodName);
+            this.requireAdapter(protocol, 'cancelOrders', methodName);
+            const signer = this.requireWallet(methodName);
+            const open = await adapter.getOpenOrders!({ signer });
+            const ids = open.map((o) => o.orderId).filter((id): id is string => !!id);
+            if (ids.length === 0) {
+                return { cancelled: [], notCancelled: {} };
+            }
+            return this.applyCancellation(await adapter.cancelOrders!(ids, { signer }));
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    private cancelPaperOrders(orderIds: string[]): CancelOrdersResult {
+        const result: CancelOrdersResult = { cancelled: [], notCancelled: {} };
+        for (const orderId of orderIds) {
+            if (!this.paperAccount?.has(orderId)) result.notCancelled[orderId] = 'unknown paper order';
+            else if (this.paperAccount.cancel(orderId)) result.cancelled.push(orderId);
+            else result.notCancelled[orderId] = 'order is not open';
+        }
+        return result;
+    }
+
+    /**
+     * Marks cancelled orders in the order tracker.
+     * @private
+     */
+    private applyCancellation(result: CancelOrdersResult): CancelOrdersResult {
+        for (const orderId of result.cancelled) {
+            this.orderTracker.update(orderId, { status: 'cancelled' });
+        }
+        return result;
+    }
+
+    /**
+     * Creates Polymarket CLOB API credentials from the configured wallet if none exist yet.
+     * @private
+     */
+    private async ensureClobCreds(methodName: string) {
+        if (!this.polymarketClob.creds) {
+            await this.initCreds(this.requireWallet(methodName));
+        }
+    }
+
+    /**
+     * The CLOB client reports HTTP failures as `{ error }` instead of throwing; turn them into errors.
+     * @private
+     */
+    private assertClobResponse<T>(res: T, methodName: string): T {
+        const error = (res as any)?.error;
+        if (error !== undefined) {
+            const detail = typeof error === 'string' ? error : JSON.stringify(error);
+            throw new PolynanceApiError(`Polymarket CLOB request failed: ${detail}`, PolynanceErrorCode.API_REQUEST_FAILED, {
+                methodName,
+                responseData: res,
+            });
+        }
+        return res;
+    }
+
+    private requireWallet(methodName: string): Wallet | JsonRpcSigner {
+        if (!this.wallet) {
+            throw new PolynanceApiError("A wallet is required for this operation.", PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+        }
+        return this.wallet;
+    }
+
+    private requireAdapter(provider: string, capability: 'getOpenOrders' | 'cancelOrders' | 'cancelMarketOrders', methodName: string): OrderAdapter<any> {
+        const adapter = this.orderAdapters.get(provider);
+        if (!adapter?.[capability]) {
+            throw new PolynanceApiError(`Provider ${provider} does not support ${methodName}.`, PolynanceErrorCode.INVALID_PARAMETER, {
+                methodName,
+                context: { provider },
+            });
+        }
+        return adapter;
+    }
+
+    /**
+     * Looks up an exchange by slug (if the identifier contains '-') or id. Returns `null` if it cannot be found.
+     * Slugs are looked up across providers, so each candidate is confirmed with `getExchange` on `protocol`.
+     * @private
+     */
+    private async findExchange(protocol: PredictionProvider, marketIdOrSlug: string): Promise<Exchange | null> {
+        try {
+            const isSlug = marketIdOrSlug.includes("-");
+            if (isSlug) {
+                const candidates = await this.getExchangeBySlug(marketIdOrSlug);
+                for (const candidate of candidates) {
+                    const exchange = await this.getExchange(protocol, candidate.id).catch(() => null);
+                    if (exchange) return exchange;
+                }
+                return null;
+            }
+            return await this.getExchange(protocol, marketIdOrSlug);
+        } catch (e) {
+            console.log(e);
+            return null;
+        }
+    }
+
+    private async requireExchange(protocol: PredictionProvider, marketIdOrSlug: string, methodName: string): Promise<Exchange> {
+        const exchange = await this.findExchange(protocol, marketIdOrSlug);
+        if (!exchange) {
+            throw new PolynanceApiError(`Exchange ${marketIdOrSlug} not found.`, PolynanceErrorCode.NOT_FOUND, {
+                methodName,
+                context: { protocol, marketIdOrSlug },
+            });
+        }
+        return exchange;
+    }
+
+    /**
+     * Fetches the latest state of a tracked order from its provider.
+     * @private
+     */
+    private async fetchOrderStatus(order: TrackedOrder): Promise<Partial<Pick<TrackedOrder, 'status' | 'filledSize'>> | null> {
+        const account = this.paperAccount;
+        const paperOrder = account?.get(order.orderId);
+        if (account && paperOrder) {
+            const books = await this.getOrderbook(paperOrder.provider as PredictionProvider, paperOrder.exchangeId);
+            const state = account.match(order.orderId, books[paperOrder.tokenId]);
+            return state ? { status: state.status, filledSize: state.filledSize } : null;
+        }
+        if (order.provider === 'polymarket') {
+            const op = await this.polymarketClob.getOrder(order.orderId);
+            if (!op) return null;
+            const { status, filledSize } = fromPolymarketOrder(op);
+            return { status, filledSize };
+        }
+        const adapter = this.orderAdapters.get(order.provider);
+        if (!adapter?.getOrder) return null;
+        const result = await adapter.getOrder(order.orderId, { signer: this.wallet });
+        return { status: result.status, filledSize: result.filledSize ?? order.filledSize };
+    }
+
+    /**
+     * Splits USDC into a full set of outcome tokens: `amount` USDC becomes `amount` shares of each outcome.
+     * Neg-risk markets are split through the neg-risk adapter.
+     * @param marketIdOrSlug - Polymarket exchange id or slug.
+     * @param amount - USDC to split.
+     * @param options - Provider, neg-risk override and confirmations.
+     * @returns A summary of the mined transaction.
+     * @throws {PolynanceApiError} `INSUFFICIENT_BALANCE` or `INSUFFICIENT_ALLOWANCE` before sending, `TRANSACTION_FAILED` if it reverts.
+     */
+    public async splitPosition(marketIdOrSlug: string, amount: number, options?: PositionTxOptions): Promise<PositionTxReceipt> {
+        const methodName = 'splitPosition';
+        const context = { marketIdOrSlug, amount };
+        try {
+            const baseAmount = this.toCollateralUnits(amount, methodName);
+            const pos = await this.positionContext(marketIdOrSlug, methodName, options);
+            const spender = pos.negRisk ? pos.contracts.negRiskAdapter : pos.contracts.conditionalTokens;
+            const [balance, allowance] = await Promise.all([
+                pos.usdc.balanceOf(pos.owner) as Promise<ethers.BigNumber>,
+                pos.usdc.allowance(pos.owner, spender) as Promise<ethers.BigNumber>,
+            ]);
+            if (balance.lt(baseAmount)) {
+                throw new PolynanceApiError(`USDC balance ${balance.toString()} is below ${baseAmount.toString()}.`, PolynanceErrorCode.INSUFFICIENT_BALANCE, { methodName, context });
+            }
+            if (allowance.lt(baseAmount)) {
+                throw new PolynanceApiError(`USDC allowance for ${spender} is below ${baseAmount.toString()}.`, PolynanceErrorCode.INSUFFICIENT_ALLOWANCE, { methodName, context: { ...context, spender } });
+            }
+            const tx = pos.negRisk
+                ? await pos.adapter.splitPosition(pos.conditionId, baseAmount)
+                : await pos.ctf.splitPosition(pos.contracts.collateral, constants.HashZero, pos.conditionId, BINARY_PARTITION, baseAmount);
+            return await this.positionReceipt('split', pos, tx, [baseAmount, baseAmount], options, methodName);
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Merges a full set of outcome tokens back into USDC: `amount` shares of each outcome become `amount` USDC.
+     * Neg-risk markets are merged through the neg-risk adapter.
+     * @param marketIdOrSlug - Polymarket exchange id or slug.
+     * @param amount - Shares of each outcome to merge.
+     * @param options - Provider, neg-risk override and confirmations.
+     * @returns A summary of the mined transaction.
+     * @throws {PolynanceApiError} `INSUFFICIENT_BALANCE` or `INSUFFICIENT_ALLOWANCE` before sending, `TRANSACTION_FAILED` if it reverts.
+     */
+    public async mergePositions(marketIdOrSlug: string, amount: number, options?: PositionTxOptions): Promise<PositionTxReceipt> {
+        const methodName = 'mergePositions';
+        const context = { marketIdOrSlug, amount };
+        try {
+            const baseAmount = this.toCollateralUnits(amount, methodName);
+            const pos = await this.positionContext(marketIdOrSlug, methodName, options);
+            const balances = await this.positionBalances(pos);
+            const short = balances.findIndex((b) => b.lt(baseAmount));
+            if (short !== -1) {
+                throw new PolynanceApiError(`Balance of outcome ${short} is ${balances[short].toString()}, below ${baseAmount.toString()}.`, PolynanceErrorCode.INSUFFICIENT_BALANCE, { methodName, context });
+            }
+            await this.assertAdapterApproval(pos, methodName);
+            const tx = pos.negRisk
+                ? await pos.adapter.mergePositions(pos.conditionId, baseAmount)
+                : await pos.ctf.mergePositions(pos.contracts.collateral, constants.HashZero, pos.conditionId, BINARY_PARTITION, baseAmount);
+            return await this.positionReceipt('merge', pos, tx, [baseAmount, baseAmount], options, methodName);
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Redeems every outcome token held in a resolved market for its payout in USDC.
+     * Neg-risk markets are redeemed through the neg-risk adapter.
+     * @param marketIdOrSlug - Polymarket exchange id or slug.
+     * @param options - Provider, neg-risk override and confirmations.
+     * @returns A summary of the mined transaction; `collateralFlow` is the payout.
+     * @throws {PolynanceApiError} `INVALID_PARAMETER` if the market is not resolved, `INSUFFICIENT_BALANCE` if nothing is held,
+     *  `INSUFFICIENT_ALLOWANCE` if the neg-risk adapter is not approved, `TRANSACTION_FAILED` if it reverts.
+     */
+    public async redeemPositions(marketIdOrSlug: string, options?: PositionTxOptions): Promise<PositionTxReceipt> {
+        const methodName = 'redeemPositions';
+        const context = { marketIdOrSlug };
+        try {
+            const pos = await this.positionContext(marketIdOrSlug, methodName, options);
+            const denominator: ethers.BigNumber = await pos.ctf.payoutDenominator(pos.conditionId);
+            if (denominator.isZero()) {
+                throw new PolynanceApiError(`Condition ${pos.conditionId} is not resolved yet.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+            }
+            const balances = await this.positionBalances(pos);
+            if (balances.every((b) => b.isZero())) {
+                throw new PolynanceApiError('No outcome tokens to redeem.', PolynanceErrorCode.INSUFFICIENT_BALANCE, { methodName, context });
+            }
+            await this.assertAdapterApproval(pos, methodName);
+            const tx = pos.negRisk
+                ? await pos.adapter.redeemPositions(pos.conditionId, balances)
+                : await pos.ctf.redeemPositions(pos.contracts.collateral, constants.HashZero, pos.conditionId, BINARY_PARTITION);
+            return await this.positionReceipt('redeem', pos, tx, balances, options, methodName);
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Resolves the wallet, condition and contracts for a split, merge or redeem.
+     * @private
+     */
+    private async positionContext(marketIdOrSlug: string, methodName: string, options?: PositionTxOptions) {
+        if (this.paperAccount) {
+            throw new PolynanceApiError('On-chain position transactions are not available in paper-trading mode.', PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+        }
+        const wallet = this.connectedWallet(undefined, options?.rpcProvider, methodName);
+        const exchange = await this.requireExchange('polymarket', marketIdOrSlug, methodName);
+        if (exchange.position_tokens.length !== 2) {
+            throw new PolynanceApiError(`Exchange ${exchange.id} does not have exactly two outcomes.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName, context: { marketIdOrSlug } });
+        }
+        const tokenIds = exchange.position_tokens.map((t) => t.token_id);
+        const [conditionId, negRisk, owner] = await Promise.all([
+            this.resolveConditionId(exchange, methodName),
+            options?.negRisk ?? this.polymarketClob.getNegRisk(tokenIds[0]).then((v) => v === true),
+            wallet.getAddress(),
+        ]);
+        const contracts = this.network.contracts;
+        return {
+            owner,
+            conditionId,
+            negRisk,
+            tokenIds,
+            contracts,
+            usdc: new ethers.Contract(contracts.collateral, minimunAbi["usdc"], wallet),
+            ctf: new ethers.Contract(contracts.conditionalTokens, minimunAbi["ctf"], wallet),
+            adapter: new ethers.Contract(contracts.negRiskAdapter, minimunAbi["negRiskAdapter"], wallet),
+        };
+    }
+
+    /**
+     * Condition id of a Polymarket exchange: its id when that is one, otherwise the `market` of its order book.
+     * @private
+     */
+    private async resolveConditionId(exchange: Exchange, methodName: string): Promise<string> {
+        if (/^0x[0-9a-fA-F]{64}$/.test(exchange.id)) return exchange.id;
+        const book = await this.polymarketClob.getOrderBook(exchange.position_tokens[0].token_id);
+        if (!/^0x[0-9a-fA-F]{64}$/.test(book?.market ?? '')) {
+            throw new PolynanceApiError(`Could not resolve the condition id of exchange ${exchange.id}.`, PolynanceErrorCode.NOT_FOUND, { methodName, context: { exchangeId: exchange.id } });
+        }
+        return book.market;
+    }
+
+    /** Balances of both outcome tokens, in outcome order. @private */
+    private async positionBalances(pos: PositionContext): Promise<ethers.BigNumber[]> {
+        return Promise.all(pos.tokenIds.map((id) => pos.ctf.balanceOf(pos.owner, id) as Promise<ethers.BigNumber>));
+    }
+
+    /** Neg-risk merges and redemptions move outcome tokens through the adapter, which needs operator approval. @private */
+    private async assertAdapterApproval(pos: PositionContext, methodName: string) {
+        if (!pos.negRisk) return;
+        const approved: boolean = await pos.ctf.isApprovedForAll(pos.owner, pos.contracts.negRiskAdapter);
+        if (!approved) {
+            throw new PolynanceApiError(`The neg-risk adapter ${pos.contracts.negRiskAdapter} is not approved for the wallet's outcome tokens.`, PolynanceErrorCode.INSUFFICIENT_ALLOWANCE, {
+                methodName,
+                context: { spender: pos.contracts.negRiskAdapter },
+            });
+        }
+    }
+
+    /**
+     * Waits for a position transaction and summarizes its receipt.
+     * @private
+     */
+    private async positionReceipt(
+        action: PositionTxReceipt['action'],
+        pos: PositionContext,
+        tx: ethers.ContractTransaction,
+        amounts: ethers.BigNumber[],
+        options: PositionTxOptions | undefined,
+        methodName: string
+    ): Promise<PositionTxReceipt> {
+        let receipt: ethers.ContractReceipt;
+        try {
+            receipt = await tx.wait(options?.confirmations ?? 1);
+        } catch (error: any) {
+            if (error?.code === 'CALL_EXCEPTION' && error.receipt) {
+                throw new PolynanceApiError(`Transaction ${tx.hash} reverted.`, PolynanceErrorCode.TRANSACTION_FAILED, {
+                    methodName,
+                    cause: error,
+                    context: { txHash: tx.hash, conditionId: pos.conditionId },
                 });
-                console.log(`[USDC->NegRiskAdapter]: ${txn.hash}`);
-              }
-              if (!usdcAllowanceNegRiskExchange.gt(constants.Zero)) {
-                  txn = await usdc.approve(contractConfig.negRiskExchange, constants.MaxUint256, {
-                      gasPrice: 100_000_000_000,
-                      gasLimit: 200_000,
-                  });
-                  console.log(`[USDC->NegRiskExchange]: ${txn.hash}`);
-              }
-              if (!conditionalTokensAllowanceNegRiskExchange) {
-                  txn = await ctf.setApprovalForAll(contractConfig.negRiskExchange, true, {
-                      gasPrice: 100_000_000_000,
-                      gasLimit: 200_000,
-                  });
-                  console.log(`[CTF->NegRiskExchange]: ${txn.hash}`);
-              }
-              if (!conditionalTokensAllowanceNegRiskAdapter) {
-                  txn = await ctf.setApprovalForAll(contractConfig.negRiskAdapter, true, {
-                      gasPrice: 100_000_000_000,
-                      gasLimit: 200_000,
-                  });
-                  console.log(`[CTF->NegRiskAdapter]: ${txn.hash}`);
-              }
-              console.log(txn ? txn.hash : "allowance already set")
-              
-              return Number(usdcBalance.toString());
-        }catch(e) {
-            throw this.handleError(e, 'approveAllowance', {});
+            }
+            throw error;
+        }
+        const ctfAddress = pos.contracts.conditionalTokens.toLowerCase();
+        const entries = receipt.logs
+            .filter((log) => log.address.toLowerCase() === ctfAddress)
+            .map(decodeLedgerLog)
+            .filter((entry): entry is LedgerEntry => entry !== null);
+        return {
+            action,
+            conditionId: pos.conditionId,
+            negRisk: pos.negRisk,
+            owner: pos.owner,
+            txHash: receipt.transactionHash,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+            effectiveGasPrice: (receipt.effectiveGasPrice ?? tx.gasPrice ?? constants.Zero).toString(),
+            amounts: amounts.map((a) => a.toString()),
+            collateralFlow: entries.reduce((sum, e) => sum.add(e.collateralFlow), constants.Zero).toString(),
+            entries,
+        };
+    }
+
+    /** Converts a USDC or share amount to 6-decimal base units. @private */
+    private toCollateralUnits(amount: number, methodName: string): ethers.BigNumber {
+        if (!Number.isFinite(amount) || amount <= 0) {
+            throw new PolynanceApiError("Parameter 'amount' must be a positive number.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context: { amount } });
+        }
+        return ethers.utils.parseUnits(amount.toFixed(COLLATERAL_TOKEN_DECIMALS), COLLATERAL_TOKEN_DECIMALS);
+    }
+
+    /**
+     * Reports the USDC allowances and outcome-token approvals of a wallet for every Polymarket spender, without sending anything.
+     * @param walletAddress - Address to check. Defaults to the configured wallet.
+     * @param options - Spenders to check, the USDC amount needed, and whether to bypass the cache.
+     * @param rpcProvider - Provider to read from when the wallet has none.
+     * @returns A typed report; `ready` tells whether trading can proceed.
+     * @throws {PolynanceApiError} If no address or provider is available, or the reads fail.
+     */
+    public async checkAllowances(walletAddress?: string, options?: AllowanceCheckOptions, rpcProvider?: JsonRpcProvider): Promise<AllowanceReport> {
+        const methodName = 'checkAllowances';
+        try {
+            const runner = rpcProvider ?? this.wallet?.provider ?? this.getNetworkProvider();
+            if (!runner) {
+                throw new PolynanceApiError('A provider is required; pass rpcProvider or configure a connected wallet.', PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+            }
+            const owner = walletAddress || this.walletAddress || await this.requireWallet(methodName).getAddress();
+            return await this.allowances.check(runner, owner, options);
+        } catch (error) {
+            throw this.handleError(error, methodName, { walletAddress, spenders: options?.spenders });
         }
     }
 
-    public async getConditionalTokensBalance(tokenId: string,walletAddress?: string) {
-        const contractConfig = getContractConfig(Chain.POLYGON);
-        if(!this.wallet) {
-            throw new Error("Wallet is required to get balance");
+    /**
+     * Approves every missing USDC allowance and outcome-token approval of the configured wallet,
+     * using EIP-1559 fees, and waits for the approvals to confirm.
+     * @param options - Spenders to cover, the USDC amount needed, the approval amount, and whether to bypass the cache.
+     * @param rpcProvider - Provider to connect the wallet to when it has none.
+     * @returns A typed report including the approval transactions sent.
+     * @throws {PolynanceApiError} If no wallet is configured, or an approval fails.
+     */
+    public async ensureAllowances(options?: AllowanceCheckOptions, rpcProvider?: JsonRpcProvider): Promise<AllowanceReport> {
+        const methodName = 'ensureAllowances';
+        try {
+            return await this.allowances.ensure(this.connectedWallet(undefined, rpcProvider, methodName), options);
+        } catch (error) {
+            throw this.handleError(error, methodName, { spenders: options?.spenders });
+        }
+    }
+
+    /**
+     * Returns the wallet connected to a provider, connecting a `Wallet` to `rpcProvider` if needed.
+     * @private
+     */
+    private connectedWallet(wallet: Wallet | JsonRpcSigner | undefined, rpcProvider: JsonRpcProvider | undefined, methodName: string): Wallet | JsonRpcSigner {
+        const signer = wallet ?? this.requireWallet(methodName);
+        if (signer.provider) return signer;
+        const provider = rpcProvider ?? this.getNetworkProvider();
+        if (signer instanceof Wallet && provider) return signer.connect(provider);
+        throw new PolynanceApiError('The wallet has no provider; pass rpcProvider or set network.rpcUrl.', PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+    }
+
+    /**
+     * JSON-RPC provider for the network profile's `rpcUrl`, created on first use.
+     * @returns `undefined` if the profile has no RPC URL.
+     */
+    public getNetworkProvider(): JsonRpcProvider | undefined {
+        if (!this.networkProvider && this.network.rpcUrl) {
+            this.networkProvider = new JsonRpcProvider(this.network.rpcUrl, this.network.chainId);
+        }
+        return this.networkProvider;
+    }
+
+    /**
+     * Balance of one position token, in base units and as a decimal.
+     * @param tokenId - The position token id.
+     * @param walletAddress - Address to read. Defaults to the configured wallet.
+     * @throws {PolynanceApiError} If no address or provider is available, or the read fails.
+     */
+    public async getConditionalTokensBalance(tokenId: string, walletAddress?: string): Promise<TokenBalance> {
+        const methodName = 'getConditionalTokensBalance';
+        try {
+            if (this.paperAccount) {
+                return fromDecimalAmount(this.paperAccount.positionBalance(tokenId));
+            }
+            const { runner, owner } = await this.balanceReader(walletAddress, methodName);
+            const ctf = new ethers.Contract(this.network.contracts.conditionalTokens, minimunAbi["ctf"], runner);
+            return toTokenBalance(await ctf.balanceOf(owner, tokenId));
+        } catch (error) {
+            throw this.handleError(error, methodName, { tokenId, walletAddress });
+        }
+    }
+
+    /**
+     * USDC balance, in base units and as a decimal.
+     * @param walletAddress - Address to read. Defaults to the configured wallet.
+     * @throws {PolynanceApiError} If no address or provider is available, or the read fails.
+     */
+    public async getUSDCBalance(walletAddress?: string): Promise<TokenBalance> {
+        const methodName = 'getUSDCBalance';
+        try {
+            if (this.paperAccount) {
+                return fromDecimalAmount(this.paperAccount.usdcBalance());
+            }
+            const { runner, owner } = await this.balanceReader(walletAddress, methodName);
+            const usdc = new ethers.Contract(this.network.contracts.collateral, minimunAbi["usdc"], runner);
+            return toTokenBalance(await usdc.balanceOf(owner));
+        } catch (error) {
+            throw this.handleError(error, methodName, { walletAddress });
+        }
+    }
+
+    /**
+     * Reads the USDC balance and many position-token balances of a wallet in one round trip.
+     * Uses the network's Multicall3 contract when configured, so all balances come from the same block.
+     * @param address - Address to read. Falls back to the configured wallet when empty.
+     * @param tokenIds - Position token ids; duplicates are read once.
+     * @throws {PolynanceApiError} If no address or provider is available, or the read fails.
+     */
+    public async getWalletSnapshot(address: string, tokenIds: string[]): Promise<WalletSnapshot> {
+        const methodName = 'getWalletSnapshot';
+        try {
+            if (this.paperAccount) {
+                const account = this.paperAccount;
+                const positions: Record<string, TokenBalance> = {};
+                tokenIds.forEach((id) => { positions[id] = fromDecimalAmount(account.positionBalance(id)); });
+                return { address, usdc: fromDecimalAmount(account.usdcBalance()), positions, blockNumber: null, fetchedAt: Date.now() };
+            }
+            const { runner, owner } = await this.balanceReader(address, methodName);
+            const balances = await readWalletBalances(runner, this.network.contracts, owner, tokenIds, this.network.multicallAddress);
+            return { address: owner, ...balances, fetchedAt: Date.now() };
+        } catch (error) {
+            throw this.handleError(error, methodName, { address, tokenCount: tokenIds.length });
         }
-        const adder = walletAddress||this.walletAddress||this.wallet.getAddress();
-        const ctf = new ethers.Contract(contractConfig.conditionalTokens, minimunAbi["ctf"], this.wallet);
-        const balance = await ctf.balanceOf(adder, tokenId);
-        return Number(balance.toString());
     }
 
-    public async getUSDCBalance(walletAddress?: string) {
-        const contractConfig = getContractConfig(Chain.POLYGON);
-        if(!this.wallet) {
-            throw new Error("Wallet is required to get balance");
+    /**
+     * Resolves the address and provider for a balance read. A wallet is only needed when no address is given.
+     * @private
+     */
+    private async balanceReader(walletAddress: string | undefined, methodName: string): Promise<{ runner: ethers.Signer | ethers.providers.Provider; owner: string }> {
+        const runner = this.wallet?.provider ? this.wallet : this.getNetworkProvider();
+        if (!runner) {
+            throw new PolynanceApiError('A provider is required; configure a connected wallet or set network.rpcUrl.', PolynanceErrorCode.INVALID_PARAMETER, { methodName });
         }
-        const adder = walletAddress||this.walletAddress||this.wallet.getAddress();
-        const usdc = new ethers.Contract(contractConfig.collateral, minimunAbi["usdc"], this.wallet);
-        const balance = await usdc.balanceOf(adder);
-        return Number(balance.toString());
+        const owner = walletAddress || this.walletAddress || await this.requireWallet(methodName).getAddress();
+        return { runner, owner };
     }
 
     public async proposePrice(order: SignedOrder) {
@@ -375,6 +1259,56 @@ export class PolynanceSDK {
       
 
 
+    /**
+     * Removes cached API responses.
+     * @param method - Limit invalidation to one cached method (e.g. 'getMarket'); omit to clear the whole cache.
+     * @param args - The exact arguments of a single call to invalidate, e.g. `invalidateCache('getMarket', 'polymarket', marketId)`.
+     *               For `search`, pass the query string and filter exactly as given to `search`.
+     */
+    public async invalidateCache(method?: CachedMethod, ...args: unknown[]): Promise<void> {
+        if (!this.responseCache) return;
+        if (method === 'search' && args.length > 0) {
+            args = [this.searchParams(args[0] as string, args[1] as Partial<SearchFilter> | undefined)];
+        }
+        await this.responseCache.invalidate(method, args.length > 0 ? args : undefined);
+    }
+
+    /**
+     * Runs `fetcher` through the response cache when caching is enabled.
+     * @private
+     */
+    private cached<T>(method: CachedMethod, args: unknown[], fetcher: () => Promise<T>): Promise<T> {
+        return this.responseCache ? this.responseCache.wrap(method, args, fetcher) : fetcher();
+    }
+
+    /**
+     * Checks a response against its schema according to the configured validation mode.
+     * @param schema - The expected shape.
+     * @param data - The response body.
+     * @param methodName - The SDK method that received the response.
+     * @param context - Context to include in the error.
+     * @returns The data, typed as `T`.
+     * @throws {PolynanceApiError} With code `VALIDATION_ERROR` in strict mode when the data does not conform.
+     * @private
+     */
+    private validate<T>(schema: Schema<T>, data: unknown, methodName: string, context?: Record<string, any>): T {
+        if (this.validationMode === 'off') return data as T;
+        const issues = validateData(schema, data);
+        if (issues.length === 0) return data as T;
+
+        const first = issues[0];
+        const message = `Response failed validation at ${first.path}: expected ${first.expected}, received ${first.received}.`
+            + (issues.length > 1 ? ` (${issues.length - 1} more issue${issues.length > 2 ? 's' : ''})` : '');
+        if (this.validationMode === 'warn') {
+            console.warn(`[validation] ${methodName}: ${message}`);
+            return data as T;
+        }
+        throw new PolynanceApiError(message, PolynanceErrorCode.VALIDATION_ERROR, {
+            methodName,
+            context: { ...context, path: first.path, issues: issues.slice(0, 20), issueCount: issues.length },
+        });
+    }
+
     /**
      * Handles errors, logs them, and wraps them in a PolynanceApiError.
      * @param error - The error object caught.
@@ -402,7 +1336,7 @@ export class PolynanceSDK {
             originalError = error; // Ensure originalError is set
 
             // Add request URL to context if available
-            const errorContext = { ...context, url: error.config?.url, requestMethod: error.config?.method?.toUpperCase() };
+            const errorContext = { ...context, url: error.config?.url, requestMethod: error.config?.method?.toUpperCase(), attempts: getAttemptCount(error.config) };
 
             if (error.code === 'ECONNABORTED' || error.message.toLowerCase().includes('timeout')) {
                 code = PolynanceErrorCode.TIMEOUT_ERROR;
@@ -522,10 +1456,12 @@ export class PolynanceSDK {
             throw new PolynanceApiError("Missing required parameter 'marketId'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
         }
         try {
-            const response = await this.apiClient.get<Market>(`/v1/events/${marketId}`, {
-                params: { protocol },
+            return await this.cached('getMarket', [protocol, marketId], async () => {
+                const response = await this.apiClient.get<Market>(`/v1/events/${marketId}`, {
+                    params: { protocol },
+                });
+                return this.validate(Schemas.Market, response.data, methodName, context);
             });
-            return response.data;
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
@@ -548,10 +1484,12 @@ export class PolynanceSDK {
             throw new PolynanceApiError("Missing required parameter 'exchangeId'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
         }
         try {
-            const response = await this.apiClient.get<Exchange>(`/v1/markets/${exchangeId}`, {
-                params: { protocol },
+            return await this.cached('getExchange', [protocol, exchangeId], async () => {
+                const response = await this.apiClient.get<Exchange>(`/v1/markets/${exchangeId}`, {
+                    params: { protocol },
+                });
+                return this.validate(Schemas.Exchange, response.data, methodName, context);
             });
-            return response.data;
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
@@ -582,12 +1520,33 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<Market[]>('/v1/ongoing-events', {
                 params: { protocol, page, limit },
             });
-            return response.data;
+            return this.validate(Schemas.arrayOf(Schemas.Market), response.data, methodName, context);
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
     }
 
+    /**
+     * Iterates over every active market of a prediction provider, fetching pages on demand.
+     * Iteration ends at the first empty page.
+     *
+     * @example
+     * for await (const market of sdk.iterateActiveMarkets('polymarket', { concurrency: 3, dedupe: true })) { ... }
+     *
+     * @param protocol - The prediction provider identifier (e.g., 'polymarket').
+     * @param options - Page size, prefetch window, page cap, abort signal and de-duplication by `Market.id`.
+     * @returns An async generator of `Market` objects.
+     * @throws {PolynanceApiError} If a page request fails, or with code `ABORTED` when the signal fires.
+     */
+    iterateActiveMarkets(protocol: PredictionProvider, options: MarketIterationOptions = {}): AsyncGenerator<Market, void, undefined> {
+        return paginate(
+            (page) => this.getActiveMarkets(protocol, page, options.limit),
+            options,
+            options.dedupe ? (market) => market.id : undefined,
+            'iterateActiveMarkets'
+        );
+    }
+
     /**
      * Retrieves a list of discussions associated with a specific market.
      * @param protocol - The prediction provider identifier (e.g., 'polymarket').
@@ -608,7 +1567,7 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<MarketDiscussion[]>(`/v1/events/${marketId}/comments`, {
                 params: { protocol },
             });
-            return response.data;
+            return this.validate(Schemas.arrayOf(Schemas.MarketDiscussion), response.data, methodName, context);
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
@@ -634,12 +1593,95 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<Record<string, OrderBookSummary>>(`/v1/markets/${exchangeId}/orderbook`, {
                 params: { protocol },
             });
-            return response.data;
+            return this.validate(Schemas.recordOf(Schemas.OrderBookSummary), response.data, methodName, context);
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
     }
 
+    /**
+     * Creates a locally maintained order book for an exchange and waits for its first snapshot.
+     * The book follows a streaming feed (the Polymarket market WebSocket by default, where available)
+     * and falls back to periodic re-snapshots. Call `stop()` on the returned book when done.
+     * @param protocol - The prediction provider identifier (e.g., 'polymarket').
+     * @param exchangeId - The unique identifier of the exchange.
+     * @param handlers - Change and error callbacks.
+     * @param options - Feed, polling and consistency-check settings.
+     * @returns The started `LiveOrderBook`.
+     * @throws {PolynanceApiError} If the initial snapshot cannot be loaded.
+     */
+    async subscribeToOrderbook(
+        protocol: PredictionProvider,
+        exchangeId: string,
+        handlers?: LiveOrderBookHandlers,
+        options?: LiveOrderBookOptions
+    ): Promise<LiveOrderBook> {
+        const methodName = 'subscribeToOrderbook';
+        const context = { protocol, exchangeId };
+        const feed = options?.feed === false
+            ? null
+            : options?.feed ?? (protocol === 'polymarket' && this.network.clobWsUrl && PolymarketBookFeed.isAvailable() ? new PolymarketBookFeed(this.network.clobWsUrl) : null);
+        const book = new LiveOrderBook(() => this.getOrderbook(protocol, exchangeId), feed, {
+            ...options,
+            reconnect: { ...this.reconnectPolicy, ...options?.reconnect },
+        }, handlers);
+        try {
+            await book.start();
+            return book;
+        } catch (error) {
+            book.stop();
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Creates live candles for several intervals, seeded from `getPriceHistory` and kept current from
+     * `subscribeToTrades`. Candles close on interval boundaries even without trades. Call `stop()` on the
+     * returned `LiveCandles` when done.
+     * @param protocol - The prediction provider identifier (e.g., 'polymarket').
+     * @param exchangeId - The unique identifier of the exchange.
+     * @param intervals - Candle intervals in **milliseconds**.
+     * @param handlers - `onCandleUpdate`, `onCandleClose` and `onError` callbacks.
+     * @param options - Seeding outcome, trade feed, trade statistics, history length and close delay.
+     * @returns The started `LiveCandles`.
+     * @throws {PolynanceApiError} If an interval is invalid, `outcomeIndex` is not 0 with the default feed, or the history cannot be loaded.
+     */
+    async subscribeToCandles(
+        protocol: PredictionProvider,
+        exchangeId: string,
+        intervals: number[],
+        handlers?: LiveCandleHandlers,
+        options?: CandleSubscriptionOptions
+    ): Promise<LiveCandles> {
+        const methodName = 'subscribeToCandles';
+        const context = { protocol, exchangeId, intervals };
+        const outcomeIndex = options?.outcomeIndex ?? 0;
+        if (outcomeIndex !== 0 && options?.feed === undefined) {
+            // The trade stream carries no outcome, so it would mix other outcomes' trades into the candles.
+            throw new PolynanceApiError("The default trade feed only supports outcomeIndex 0; pass a feed for that outcome or feed: false.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context: { ...context, outcomeIndex } });
+        }
+        const feed: TradeFeed | null = options?.feed === false
+            ? null
+            : options?.feed ?? {
+                subscribe: ({ onTrade, onError }) => this.subscribeToTrades(protocol, exchangeId, { onMessage: onTrade, onError }, options?.trades),
+            };
+        let candles: LiveCandles | undefined;
+        try {
+            candles = new LiveCandles(
+                async () => (await this.getPriceHistory(protocol, exchangeId))[outcomeIndex] ?? [],
+                feed,
+                intervals,
+                options,
+                handlers
+            );
+            await candles.start();
+            return candles;
+        } catch (error) {
+            candles?.stop();
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
     /**
      * Retrieves the historical price history for all position tokens in a specific exchange.
      * @param protocol - The prediction provider identifier (e.g., 'polymarket').
@@ -660,7 +1702,7 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<TradeRecord[][]>(`/v1/markets/${exchangeId}/orderbook/filledevents`, {
                 params: { protocol },
             });
-            return response.data;
+            return this.validate(Schemas.arrayOf(Schemas.arrayOf(Schemas.TradeRecord)), response.data, methodName, context);
         } catch (error) {
              throw this.handleError(error, methodName, context);
         }
@@ -679,7 +1721,7 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<Trader>(`/v1/trader/${traderAddress}`,{
                 params: { protocol },
             });
-            return response.data;
+            return this.validate(Schemas.Trader, response.data, methodName, context);
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
@@ -698,12 +1740,153 @@ export class PolynanceSDK {
             const response = await this.apiClient.get<TraderPosition[]>(`/v1/trader/${traderAddress}/positions`,{
                 params: { protocol },
             });
-            return response.data;
+            return this.validate(Schemas.arrayOf(Schemas.TraderPosition), response.data, methodName, context);
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Retrieves one page of a trader's activity (trades, redemptions and other wallet events), newest first.
+     * @param protocol - The prediction provider identifier (e.g., 'polymarket').
+     * @param traderAddress - The wallet address.
+     * @param query - Time range, side and market filters, page size and the cursor of the previous page.
+     * @returns The activities and the cursor of the next page (`null` on the last page).
+     * @throws {PolynanceApiError} If parameters are invalid or the API request fails.
+     */
+    public async getTraderActivity(protocol: PredictionProvider, traderAddress: string, query: TraderActivityQuery = {}): Promise<TraderActivityPage> {
+        const methodName = 'getTraderActivity';
+        const context = { protocol, traderAddress: traderAddress ? '***' : traderAddress, cursor: query.cursor };
+        if (!traderAddress) {
+            throw new PolynanceApiError("Missing required parameter 'traderAddress'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+        if (!protocol) {
+            throw new PolynanceApiError("Missing required parameter 'protocol'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+        if (query.limit !== undefined && query.limit < 1) {
+            throw new PolynanceApiError("Parameter 'limit' must be 1 or greater.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+        const params: Record<string, any> = { protocol };
+        if (query.from !== undefined) params.from = toEpochSeconds(query.from);
+        if (query.to !== undefined) params.to = toEpochSeconds(query.to);
+        if (query.side) params.side = query.side;
+        if (query.marketSlug) params.marketSlug = query.marketSlug;
+        if (query.limit !== undefined) params.limit = query.limit;
+        if (query.cursor) params.cursor = query.cursor;
+        try {
+            const response = await this.apiClient.get<TraderActivityPage>(`/v1/trader/${traderAddress}/activity`, { params });
+            const page = this.validate(Schemas.TraderActivityPage, response.data, methodName, context);
+            return {
+                activities: page.activities.filter((a) => matchesActivityQuery(a, query)),
+                nextCursor: page.nextCursor ?? null,
+            };
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Iterates over a trader's whole activity history matching the filters, fetching pages on demand.
+     * Collect it and pass it to `realizedPnlByMarket` to reconstruct realized PnL per market.
+     * @param protocol - The prediction provider identifier (e.g., 'polymarket').
+     * @param traderAddress - The wallet address.
+     * @param options - Filters, page size, starting cursor, page cap and abort signal.
+     * @returns An async generator of activities, newest first.
+     * @throws {PolynanceApiError} If a page request fails, or with code `ABORTED` when the signal fires.
+     */
+    iterateTraderActivity(protocol: PredictionProvider, traderAddress: string, options: TraderActivityIterationOptions = {}): AsyncGenerator<TraderActivity, void, undefined> {
+        const { maxPages, signal, cursor, ...query } = options;
+        return paginateByCursor(
+            async (next) => {
+                const page = await this.getTraderActivity(protocol, traderAddress, { ...query, cursor: next });
+                return { items: page.activities, nextCursor: page.nextCursor };
+            },
+            { cursor, maxPages, signal },
+            'iterateTraderActivity'
+        );
+    }
+
+    /**
+     * Reads a trader's Conditional Tokens ledger (splits, merges and redemptions) from the chain.
+     * Use a `store` to resume from where the previous read stopped. The contract defaults to the network profile's.
+     * @param rpcProvider - Any JSON-RPC provider for the chain the contract is on.
+     * @param traderAddress - The trader's address (the proxy wallet for Polymarket accounts).
+     * @param options - Block range, chunk size, confirmation depth, checkpoint store and callbacks.
+     * @returns The confirmed entries read and the new checkpoint.
+     * @throws {PolynanceApiError} If parameters are invalid or the node requests fail.
+     */
+    public async readLedger(
+        rpcProvider: JsonRpcProvider,
+        traderAddress: string,
+        options: LedgerReadOptions & LedgerReaderOptions = {}
+    ): Promise<LedgerReadResult> {
+        const methodName = 'readLedger';
+        const context = { traderAddress, fromBlock: options.fromBlock, toBlock: options.toBlock };
+        if (!traderAddress || !ethers.utils.isAddress(traderAddress)) {
+            throw new PolynanceApiError("Parameter 'traderAddress' must be a valid address.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+        try {
+            const contractAddress = options.contractAddress ?? this.network.contracts.conditionalTokens;
+            return await new CtfLedgerReader(rpcProvider, { ...options, contractAddress }).read(traderAddress, options);
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
     }
 
+    /**
+     * Builds one portfolio from the positions of one or more wallets on every requested provider.
+     * Providers are read in parallel; a provider that fails for an address is reported in `warnings`
+     * and left out instead of failing the whole call. Realized PnL is reconstructed from each wallet's
+     * whole activity history with `realizedPnlByMarket`.
+     * @param addresses - One wallet address or several.
+     * @param protocols - Providers to include. Defaults to all supported providers.
+     * @returns Normalized positions, totals, and exposure by provider, event and end date.
+     * @throws {PolynanceApiError} If no address is given, or if no provider could be read at all.
+     */
+    public async getPortfolio(addresses: string | string[], protocols: PredictionProvider[] = ['polymarket', 'limitless', 'truemarket']): Promise<Portfolio> {
+        const methodName = 'getPortfolio';
+        const wallets = Array.from(new Set((Array.isArray(addresses) ? addresses : [addresses]).filter(Boolean)));
+        const context = { addressCount: wallets.length, protocols };
+        if (wallets.length === 0) {
+            throw new PolynanceApiError("Missing required parameter 'addresses'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+        if (protocols.length === 0) {
+            throw new PolynanceApiError("Parameter 'protocols' must not be empty.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
+        }
+
+        const warnings: PortfolioWarning[] = [];
+        const reads = wallets.flatMap((address) => protocols.map(async (provider): Promise<PortfolioSource | null> => {
+            const [positions, activities] = await Promise.allSettled([
+                this.traderPositions(provider, address),
+                collectAll(this.iterateTraderActivity(provider, address)),
+            ]);
+            const warn = (source: PortfolioWarning['source'], reason: unknown) => warnings.push({
+                provider,
+                address,
+                source,
+                error: reason instanceof PolynanceApiError ? reason : this.handleError(reason, methodName, { provider }),
+            });
+            if (activities.status === 'rejected') warn('activity', activities.reason);
+            if (positions.status === 'rejected') {
+                warn('positions', positions.reason);
+                return null;
+            }
+            return { provider, address, positions: positions.value, activities: activities.status === 'fulfilled' ? activities.value : null };
+        }));
+        const sources = (await Promise.all(reads)).filter((s): s is PortfolioSource => s !== null);
+
+        if (sources.length === 0) {
+            const first = warnings.find((w) => w.source === 'positions')!;
+            throw new PolynanceApiError('Could not read positions from any provider.', first.error.code, {
+                methodName,
+                context,
+                cause: first.error,
+                statusCode: first.error.statusCode,
+            });
+        }
+        return buildPortfolio(wallets, protocols, sources, warnings);
+    }
+
 
    /**
     * Retrieves a list of all available market slugs across all prediction providers.
@@ -723,15 +1906,28 @@ export class PolynanceSDK {
            throw new PolynanceApiError("Parameter 'limit' must be 1 or greater.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
        }
        try {
-           const response = await this.apiClient.get<string[]>('/v1/agg/sluglist', {
-               params: { page, limit }
+           return await this.cached('getSlugs', [page, limit], async () => {
+               const response = await this.apiClient.get<string[]>('/v1/agg/sluglist', {
+                   params: { page, limit }
+               });
+               return this.validate(Schemas.arrayOf(Schemas.String), response.data, methodName, context);
            });
-           return response.data;
        } catch (error) {
            throw this.handleError(error, methodName, context);
        }
    }
 
+   /**
+    * Iterates over every market slug, fetching pages on demand.
+    * Iteration ends at the first empty page.
+    * @param options - Page size, prefetch window, page cap and abort signal.
+    * @returns An async generator of slug strings.
+    * @throws {PolynanceApiError} If a page request fails, or with code `ABORTED` when the signal fires.
+    */
+   iterateSlugs(options: PageIterationOptions = {}): AsyncGenerator<string, void, undefined> {
+       return paginate((page) => this.getSlugs(page, options.limit), options, undefined, 'iterateSlugs');
+   }
+
    /**
     * Retrieves market information using its unique slug.
     * A single slug might resolve to multiple markets if the same market exists on different prediction providers.
@@ -746,14 +1942,16 @@ export class PolynanceSDK {
              throw new PolynanceApiError("Missing required parameter 'slug'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
         }
        try {
-           const response = await this.apiClient.get<Market[]>('/v1/agg', {
-               params: { slug }
+           return await this.cached('getMarketBySlug', [slug], async () => {
+               const response = await this.apiClient.get<Market[]>('/v1/agg', {
+                   params: { slug }
+               });
+               // Optionally, check for 404 specifically if desired
+               if (response.status === 404 || response.data.length === 0) {
+                  throw new PolynanceApiError(`Market with slug '${slug}' not found.`, PolynanceErrorCode.NOT_FOUND, {methodName, context, statusCode: 404});
+               }
+               return this.validate(Schemas.arrayOf(Schemas.Market), response.data, methodName, context);
            });
-           // Optionally, check for 404 specifically if desired
-           if (response.status === 404 || response.data.length === 0) {
-              throw new PolynanceApiError(`Market with slug '${slug}' not found.`, PolynanceErrorCode.NOT_FOUND, {methodName, context, statusCode: 404});
-           }
-           return response.data;
        } catch (error) {
            // If it was an Axios 404, handleError will set NOT_FOUND code
            throw this.handleError(error, methodName, context);
@@ -774,7 +1972,7 @@ export class PolynanceSDK {
             if (response.status === 404 || response.data.length === 0) {
                throw new PolynanceApiError(`Exchange with slug '${slug}' not found.`, PolynanceErrorCode.NOT_FOUND, {methodName, context, statusCode: 404});
             }
-            return response.data;
+            return this.validate(Schemas.arrayOf(Schemas.Exchange), response.data, methodName, context);
         } catch (error) {
             // If it was an Axios 404, handleError will set NOT_FOUND code
             throw this.handleError(error, methodName, context);
@@ -796,16 +1994,12 @@ export class PolynanceSDK {
              throw new PolynanceApiError("Missing required parameter 'query'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
         }
         try {
-            const params: any = { query };
-            if (filter) {
-                if (filter.topK !== undefined) params.topK = filter.topK;
-                if (filter.protocols !== undefined && filter.protocols.length > 0) params.protocols = filter.protocols.join(',');
-                if (filter.isIncludeComment !== undefined) params.isIncludeComment = filter.isIncludeComment;
-                if (filter.threshold !== undefined) params.threshold = filter.threshold;
-            }
+            const params = this.searchParams(query, filter);
 
-            const response = await this.apiClient.get<MarketMatchResult[]>('/v1/agg/retrieve', { params });
-            return response.data;
+            return await this.cached('search', [params], async () => {
+                const response = await this.apiClient.get<MarketMatchResult[]>('/v1/agg/retrieve', { params });
+                return this.validate(Schemas.arrayOf(Schemas.MarketMatchResult), response.data, methodName, context);
+            });
         } catch (error) {
             throw this.handleError(error, methodName, context);
         }
@@ -851,33 +2045,150 @@ export class PolynanceSDK {
     }
 
 
+    /**
+     * Looks for the same question priced differently across providers.
+     * Equivalent exchanges are found through `search` similarity plus matching `Exchange.question` and end dates;
+     * complementary YES/NO legs that together cost less than 1 after fees are returned, best edge first.
+     * @param options - What to scan, matching thresholds, fee rates and the minimum edge.
+     * @returns The opportunities found.
+     * @throws {PolynanceApiError} If the markets to compare cannot be loaded.
+     */
+    async scanArbitrage(options?: ArbitrageScanOptions): Promise<ArbitrageOpportunity[]> {
+        const methodName = 'scanArbitrage';
+        try {
+            return await this.arbitrageScanner().scan(options);
+        } catch (error) {
+            throw this.handleError(error, methodName, { query: options?.query, protocols: options?.protocols });
+        }
+    }
+
+    /**
+     * Runs `scanArbitrage` every `intervalMs` and reports opportunities that were not in the previous scan.
+     * @param handlers - Callbacks for new opportunities, every scan, and errors.
+     * @param options - Scan options plus the interval.
+     * @returns A handle that stops the watcher.
+     */
+    watchArbitrage(handlers: ArbitrageWatchHandlers, options?: ArbitrageWatchOptions): { stop: () => void } {
+        return this.arbitrageScanner().watch(handlers, options);
+    }
+
+    private arbitrageScanner(): ArbitrageScanner {
+        return new ArbitrageScanner({
+            search: (query, filter) => this.search(query, filter),
+            getActiveMarkets: (protocol, page, limit) => this.getActiveMarkets(protocol, page, limit),
+            getOrderbook: (protocol, exchangeId) => this.getOrderbook(protocol, exchangeId),
+        });
+    }
+
+    /**
+     * Links markets from any providers into canonical events and remembers the links for later lookups.
+     * @param markets - Markets to link, e.g. the results of `getMarketBySlug` or `search`.
+     * @returns The canonical events the given markets belong to.
+     */
+    linkEvents(markets: Market[]): CanonicalEvent[] {
+        return this.eventLinker.add(markets);
+    }
+
+    /**
+     * Returns the canonical event a provider market belongs to, looking for its counterparts on the other providers.
+     * @param protocol - The provider of the market.
+     * @param marketId - The market id on that provider.
+     * @param filter - Restricts the counterpart search, e.g. to fewer providers or a higher threshold.
+     * @returns The canonical event with every linked market.
+     * @throws {PolynanceApiError} If the market cannot be loaded.
+     */
+    async getCanonicalEvent(protocol: PredictionProvider, marketId: string, filter?: Partial<SearchFilter>): Promise<CanonicalEvent> {
+        const methodName = 'getCanonicalEvent';
+        const context = { protocol, marketId };
+        try {
+            const market = await this.getMarket(protocol, marketId);
+            const protocols = (filter?.protocols ?? ['polymarket', 'limitless', 'truemarket'] as PredictionProvider[])
+                .filter((p) => p !== protocol);
+            // A failed search only means fewer counterparts; the market itself still resolves.
+            const matches = protocols.length > 0
+                ? await this.search(market.title, { topK: 5, ...filter, protocols }).catch(() => [] as MarketMatchResult[])
+                : [];
+            this.eventLinker.add([market, ...matches.map((m) => m.event)]);
+            return this.eventLinker.resolve(market.protocol, market.id)!;
+        } catch (error) {
+            throw this.handleError(error, methodName, context);
+        }
+    }
+
+    /**
+     * Loads manual link overrides from a JSON file and re-links every known market.
+     * A missing file clears the overrides.
+     * @param filePath - Path to a file shaped like `EventLinkOverrides`.
+     * @throws {PolynanceApiError} If the file is malformed.
+     */
+    async loadEventLinkOverrides(filePath: string): Promise<void> {
+        const methodName = 'loadEventLinkOverrides';
+        try {
+            this.eventLinker.setOverrides(await loadEventLinkOverrides(filePath));
+        } catch (error) {
+            throw this.handleError(error, methodName, { filePath });
+        }
+    }
+
+    /**
+     * Builds the query parameters for `search`; also used as its cache key.
+     * @private
+     */
+    private searchParams(query: string, filter?: Partial<SearchFilter>): Record<string, any> {
+        const params: any = { query };
+        if (filter) {
+            if (filter.topK !== undefined) params.topK = filter.topK;
+            if (filter.protocols !== undefined && filter.protocols.length > 0) params.protocols = filter.protocols.join(',');
+            if (filter.isIncludeComment !== undefined) params.isIncludeComment = filter.isIncludeComment;
+            if (filter.threshold !== undefined) params.threshold = filter.threshold;
+        }
+        return params;
+    }
+
     /**
      * Subscribes to real-time trade updates for a specific exchange or identifier via Server-Sent Events (SSE).
      *
-     * **Note:** This requires a browser environment or a Node.js environment with an `EventSource` polyfill.
+     * In browsers the native `EventSource` is used. On Node.js 18+ (or whenever custom headers are configured)
+     * the SDK's built-in fetch-based reader is used instead, so no polyfill is required.
+     * The transport can be forced with `PolynanceClientOptions.sseTransport` or `options.transport`.
+     *
+     * When the connection drops, the subscription reconnects with exponential backoff and resumes from the
+     * last received event id / timestamp, skipping trades that were already delivered.
      *
      * @param protocol - The prediction provider identifier (e.g., 'polymarket').
      * @param id - The identifier for the event stream, typically the exchange ID.
-     * @param handlers - Optional callback functions for handling SSE lifecycle events (`onOpen`, `onMessage`, `onError`).
-     * @returns A `TradeSubscription` object containing the `EventSource` instance and methods to control the subscription.
-     * @throws {PolynanceApiError} If `EventSource` is unavailable or parameters are invalid.
+     * @param handlers - Optional callback functions for handling SSE lifecycle events (`onOpen`, `onMessage`, `onError`, `onReconnecting`, `onReconnected`, `onGiveUp`).
+     * @param options - Optional per-subscription settings such as the reconnect policy, transport and headers.
+     * @returns A `TradeSubscription` object exposing the connection state and methods to control the subscription.
+     * @throws {PolynanceApiError} If no SSE transport is available or parameters are invalid.
      */
     subscribeToTrades(
         protocol: PredictionProvider,
         id: string,
-        handlers?: TradeUpdateHandlers
+        handlers?: TradeUpdateHandlers,
+        options?: TradeSubscriptionOptions
     ): TradeSubscription {
         const methodName = 'subscribeToTrades';
         const context = { protocol, id: id ? '***' : id };
 
-        // Check for EventSource availability
-        if (typeof EventSource === 'undefined') {
+        const headers = { ...this.sseHeaders, ...options?.headers };
+        const hasHeaders = Object.keys(headers).length > 0;
+        const requestedTransport = options?.transport ?? this.sseTransport;
+        const transport = resolveSseTransport(requestedTransport, hasHeaders);
+
+        // Check for transport availability
+        if (!transport) {
              throw new PolynanceApiError(
-                 "EventSource is not available in this environment. Ensure you are in a browser or have a suitable polyfill.",
+                 requestedTransport === 'eventsource'
+                    ? "EventSource is not available in this environment. Ensure you are in a browser or have a suitable polyfill."
+                    : "Neither fetch nor EventSource is available in this environment. Use Node.js 18+, a browser, or an EventSource polyfill.",
                  PolynanceErrorCode.ENVIRONMENT_ERROR,
-                 { methodName, context }
+                 { methodName, context: { ...context, transport: requestedTransport } }
              );
         }
+        if (transport === 'eventsource' && hasHeaders) {
+            console.warn(`SSE headers are ignored by the 'eventsource' transport for ${protocol}/${id}. Use the 'fetch' transport to send them.`);
+        }
         // Validate parameters
          if (!protocol) {
              throw new PolynanceApiError("Missing required parameter 'protocol'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
@@ -886,119 +2197,190 @@ export class PolynanceSDK {
             throw new PolynanceApiError("Missing required parameter 'id'.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context });
         }
 
-        const url = `${this.sseBaseUrl}/sse/fillevent?protocol=${protocol}&id=${id}`;
-        let eventSource: EventSource;
-         try {
-             eventSource = new EventSource(url);
-         } catch (error) {
-             // Catch potential synchronous errors during EventSource creation
-              const initError = this.handleError(error, methodName, {...context, url});
-              // Ensure it has a relevant code if generic
-              if (initError.code === PolynanceErrorCode.INTERNAL_SDK_ERROR) {
-                console.error("EventSource failed:", initError);
-              }
-             throw initError;
-         }
+        const reconnectEnabled = options?.reconnect?.enabled ?? this.reconnectPolicy?.enabled ?? true;
+        const policy = resolveBackoffPolicy(this.reconnectPolicy, options?.reconnect);
+        const cursor = new TradeStreamCursor();
 
+        let connection: SseConnection | null = null;
+        let state: TradeConnectionState = 'connecting';
         let latestData: TradeRecord | null = null;
+        let reconnectAttempt = 0;
+        let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+        let stableTimer: ReturnType<typeof setTimeout> | null = null;
+        let serverRetryMs: number | undefined;
+        let closedByUser = false;
+
+        const callHandler = <A extends unknown[]>(name: keyof TradeUpdateHandlers, fn: ((...args: A) => void) | undefined, ...args: A) => {
+            if (!fn) return;
+            try {
+                fn(...args);
+            } catch (handlerError) {
+                console.error(`Error in SSE '${name}' handler:`, this.handleError(handlerError, `${methodName}.${name}`, context));
+            }
+        };
 
-        // --- SSE Event Listeners ---
+        const buildUrl = () => {
+            const params = new URLSearchParams({ protocol, id, ...cursor.resumeParams() });
+            return `${this.sseBaseUrl}/sse/fillevent?${params.toString()}`;
+        };
 
-        eventSource.onopen = (ev) => {
-            console.log(`SSE connection opened: ${protocol}/${id}`);
-            if (handlers?.onOpen) {
-                try {
-                    handlers.onOpen(ev);
-                } catch (handlerError) {
-                    console.error("Error in SSE 'onOpen' handler:", this.handleError(handlerError, `${methodName}.onOpen`, context));
+        const clearStableTimer = () => {
+            if (stableTimer) clearTimeout(stableTimer);
+            stableTimer = null;
+        };
+
+        const scheduleReconnect = (cause: PolynanceApiError) => {
+            clearStableTimer();
+            if (!reconnectEnabled || reconnectAttempt >= policy.maxAttempts) {
+                state = 'closed';
+                if (reconnectEnabled) {
+                    const giveUpError = new PolynanceApiError(
+                        `SSE connection for ${protocol}/${id} could not be re-established after ${reconnectAttempt} attempts.`,
+                        PolynanceErrorCode.SSE_CLOSED,
+                        { methodName, cause, context: { ...context, attempts: reconnectAttempt } }
+                    );
+                    console.error(giveUpError.summary, giveUpError);
+                    callHandler('onGiveUp', handlers?.onGiveUp, giveUpError);
+                } else {
+                    console.warn(`SSE connection for ${protocol}/${id} is closed. Automatic reconnection is disabled.`);
                 }
+                return;
             }
+            reconnectAttempt++;
+            cursor.markDisconnected();
+            // A `retry:` field from the server replaces the initial delay, as EventSource would do.
+            const delayMs = computeBackoffDelay(reconnectAttempt, serverRetryMs !== undefined ? { ...policy, initialDelayMs: serverRetryMs } : policy);
+            state = 'reconnecting';
+            console.warn(`SSE connection for ${protocol}/${id} lost. Reconnecting in ${delayMs}ms (attempt ${reconnectAttempt}/${policy.maxAttempts}).`);
+            callHandler('onReconnecting', handlers?.onReconnecting, reconnectAttempt, delayMs);
+            reconnectTimer = setTimeout(() => {
+                reconnectTimer = null;
+                if (closedByUser) return;
+                try {
+                    connect();
+                } catch (error) {
+                    scheduleReconnect(this.handleError(error, methodName, context));
+                }
+            }, delayMs);
         };
 
-        eventSource.onmessage = (event) => {
-            try {
-                if (typeof event.data !== 'string') {
-                     throw new Error('Received non-string SSE message data.'); // Convert to error for unified handling
-                }
-                const data = JSON.parse(event.data) as TradeRecord;
+        // --- SSE Event Listeners ---
 
-                if (typeof data.price !== 'number' || typeof data.volumeBase !== 'number' || typeof data.timestamp !== 'number') {
-                     throw new Error('Received SSE message with unexpected data structure.'); // Validation error
+        const transportHandlers: SseTransportHandlers = {
+            onOpen: (ev) => {
+                console.log(`SSE connection opened: ${protocol}/${id}`);
+                state = 'open';
+                const attempts = reconnectAttempt;
+                // Only a connection that stays up or delivers a message resets the attempts;
+                // one that opens and drops straight away keeps counting towards maxAttempts.
+                clearStableTimer();
+                stableTimer = setTimeout(() => {
+                    stableTimer = null;
+                    reconnectAttempt = 0;
+                }, STABLE_CONNECTION_MS);
+                callHandler('onOpen', handlers?.onOpen, ev);
+                if (attempts > 0) {
+                    callHandler('onReconnected', handlers?.onReconnected, attempts);
                 }
+            },
 
-                latestData = data;
+            onMessage: (message) => {
+                if (message.retry !== undefined) serverRetryMs = message.retry;
+                if (message.event !== 'message') return; // Only default events carry trades
+                clearStableTimer();
+                reconnectAttempt = 0;
+                try {
+                    const data = this.validate(Schemas.TradeRecord, JSON.parse(message.data), methodName, context);
 
-                if (handlers?.onMessage) {
-                    try {
-                       handlers.onMessage(data);
-                    } catch (handlerError) {
-                       console.error("Error in SSE 'onMessage' handler:", this.handleError(handlerError, `${methodName}.onMessage`, context));
-                       // Optionally, trigger onError as well if a handler error is critical
-                       // if (handlers.onError) { ... }
+                    if (!cursor.accept(data, message.id)) {
+                        return; // Replayed after a reconnect; already delivered.
                     }
+
+                    latestData = data;
+                    callHandler('onMessage', handlers?.onMessage, data);
+                } catch (error) {
+                    const parseError = new PolynanceApiError(
+                        `Failed to process SSE message: ${error instanceof Error ? error.message : String(error)}`,
+                        PolynanceErrorCode.SSE_MESSAGE_ERROR,
+                        {
+                            methodName: `${methodName}.onMessage`,
+                            cause: error instanceof Error ? error : undefined,
+                            context: { ...context, rawData: message.data?.substring(0, 100) } // Include snippet of raw data
+                        }
+                    );
+                    console.error(parseError.summary, parseError); // Log the parsing error
+                    callHandler('onError', handlers?.onError, parseError);
                 }
-            } catch (error) {
-                const parseError = new PolynanceApiError(
-                    `Failed to process SSE message: ${error instanceof Error ? error.message : String(error)}`,
-                    PolynanceErrorCode.SSE_MESSAGE_ERROR,
-                    {
-                        methodName: `${methodName}.onMessage`,
-                        cause: error instanceof Error ? error : undefined,
-                        context: { ...context, rawData: event.data?.substring(0, 100) } // Include snippet of raw data
-                    }
-                );
-                console.error(parseError.summary, parseError); // Log the parsing error
-
-                if (handlers?.onError) {
-                     try {
-                         handlers.onError(parseError);
-                     } catch (handlerError) {
-                         console.error("Error calling SSE 'onError' handler after message error:", this.handleError(handlerError, `${methodName}.onError`, context));
-                     }
-                 }
-            }
+            },
+
+            onError: (cause, info) => {
+                if (closedByUser) return;
+                // Create a PolynanceApiError to pass to the handler
+                const errorCode = info.closed ? PolynanceErrorCode.SSE_CLOSED : PolynanceErrorCode.SSE_CONNECTION_FAILED;
+                const errorMessage = info.closed ? `SSE connection closed unexpectedly for ${protocol}/${id}.` : `SSE connection error occurred for ${protocol}/${id}.`;
+
+                const sseError = new PolynanceApiError(errorMessage, errorCode, {
+                    methodName: `${methodName}.onError`,
+                    cause,
+                    statusCode: info.statusCode,
+                    context: { ...context, transport, reconnectAttempt }
+                });
+                console.error(sseError.summary, sseError); // Log the error
+                callHandler('onError', handlers?.onError, sseError);
+
+                if (info.fatal) {
+                    console.warn(`SSE endpoint for ${protocol}/${id} rejected the subscription. Not reconnecting.`);
+                    clearStableTimer();
+                    state = 'closed';
+                    return;
+                }
+                scheduleReconnect(sseError);
+            },
         };
 
-        eventSource.onerror = (ev) => {
-            // Create a PolynanceApiError to pass to the handler
-            const isClosed = eventSource.readyState === EventSource.CLOSED;
-            const errorCode = isClosed ? PolynanceErrorCode.SSE_CLOSED : PolynanceErrorCode.SSE_CONNECTION_FAILED;
-            const errorMessage = isClosed ? `SSE connection closed unexpectedly for ${protocol}/${id}.` : `SSE connection error occurred for ${protocol}/${id}.`;
-
-             const sseError = new PolynanceApiError(errorMessage, errorCode, {
-                 methodName: `${methodName}.onError`,
-                 cause: new Error(`SSE Error Event: ${JSON.stringify(ev)}`), // Wrap original event info
-                 context
-             });
-             console.error(sseError.summary, sseError); // Log the error
-
-            if (handlers?.onError) {
-                 try {
-                    handlers.onError(sseError);
-                 } catch (handlerError) {
-                    console.error("Error calling SSE 'onError' handler:", this.handleError(handlerError, `${methodName}.onError`, context));
-                 }
+        const connect = () => {
+            const url = buildUrl();
+            try {
+                connection = transport === 'fetch'
+                    ? openFetchConnection(url, { headers, lastEventId: cursor.getLastEventId() }, transportHandlers)
+                    : openEventSourceConnection(url, transportHandlers);
+            } catch (error) {
+                // Catch potential synchronous errors during connection creation
+                const initError = this.handleError(error, methodName, {...context, url, transport});
+                // Ensure it has a relevant code if generic
+                if (initError.code === PolynanceErrorCode.INTERNAL_SDK_ERROR) {
+                    console.error("SSE connection failed:", initError);
+                }
+                throw initError;
             }
-
-             if (isClosed) {
-                 // Optionally implement automatic reconnection logic here if desired
-                 console.warn(`SSE connection for ${protocol}/${id} is closed. Automatic reconnection not implemented.`);
-             }
         };
 
+        connect();
+
         // --- Subscription Control Methods ---
 
         const close = () => {
-            if (eventSource && eventSource.readyState !== EventSource.CLOSED) {
+            if (closedByUser) return;
+            closedByUser = true;
+            state = 'closed';
+            clearStableTimer();
+            if (reconnectTimer) {
+                clearTimeout(reconnectTimer);
+                reconnectTimer = null;
+            }
+            if (connection && !connection.closed) {
                 console.log(`Closing SSE connection: ${protocol}/${id}...`);
-                eventSource.close();
+                connection.close();
             }
         };
 
         return {
-            eventSource,
+            get eventSource() { return connection?.eventSource ?? null; },
+            get state() { return state; },
+            transport,
             close,
             getLatestData: () => latestData,
+            getLastEventId: () => cursor.getLastEventId(),
         };
     }
 
@@ -1007,78 +2389,4 @@ export class PolynanceSDK {
 
 // --- Utility Functions ---
 
-/**
- * Generates price chart data (OHLCV) from a list of trade records.
- *
- * @param tradeRecords - An array of `TradeRecord` objects representing trades. Assumes timestamps are in **seconds**.
- * @param intervalMillis - The desired candlestick interval duration in **milliseconds**.
- * @param fromTimeMillis - The start timestamp (Unix milliseconds) for the desired data range (inclusive).
- * @param toTimeMillis - The end timestamp (Unix milliseconds) for the desired data range (exclusive).
- * @returns An array of `Candle` objects, sorted by time. Returns an empty array if no valid events fall within the range.
- * @throws {PolynanceApiError} if intervalMillis is not positive.
- */
-export function generatePriceChart(
-    tradeRecords: TradeRecord[],
-    intervalMillis: number,
-    fromTimeMillis: number,
-    toTimeMillis: number
-): Candle[] {
-    const methodName = 'generatePriceChart';
-    if (intervalMillis <= 0) {
-        throw new PolynanceApiError("Candlestick intervalMillis must be positive.", PolynanceErrorCode.INVALID_PARAMETER, { methodName, context: { intervalMillis } });
-    }
-     if (!tradeRecords || tradeRecords.length === 0) {
-         return [];
-     }
-
-    // Filter and sort events (ensure timestamps are handled correctly)
-    const filteredRecords = tradeRecords
-        .filter(record =>
-            typeof record.timestamp === 'number' &&
-            typeof record.price === 'number' &&
-            typeof record.volumeBase === 'number' &&
-            record.timestamp * 1000 >= fromTimeMillis &&
-            record.timestamp * 1000 < toTimeMillis
-        )
-        .map(record => ({
-            timestampMillis: record.timestamp * 1000,
-            price: record.price,
-            volumeBase: record.volumeBase
-        }))
-        .sort((a, b) => a.timestampMillis - b.timestampMillis);
-
-
-    if (filteredRecords.length === 0) {
-        return [];
-    }
-
-    const candleMap = new Map<number, Candle>();
-
-    for (const record of filteredRecords) {
-        const bucketStartTimeMillis = Math.floor(record.timestampMillis / intervalMillis) * intervalMillis;
-        const bucketStartTimeSeconds = Math.floor(bucketStartTimeMillis / 1000);
-
-        const existingCandle = candleMap.get(bucketStartTimeSeconds);
-
-        if (!existingCandle) {
-            candleMap.set(bucketStartTimeSeconds, {
-                time: bucketStartTimeSeconds,
-                open: record.price,
-                high: record.price,
-                low: record.price,
-                close: record.price,
-                volume: record.volumeBase,
-            });
-        } else {
-            existingCandle.high = Math.max(existingCandle.high, record.price);
-            existingCandle.low = Math.min(existingCandle.low, record.price);
-            existingCandle.close = record.price; // Last price updates close
-            existingCandle.volume += record.volumeBase;
-        }
-    }
-
-    // Convert map values to array and sort
-    const candles = Array.from(candleMap.values()).sort((a, b) => a.time - b.time);
-
-    return candles;
-}
\ No newline at end of file
+export { generatePriceChart } from './candles';
\ No newline at end of file
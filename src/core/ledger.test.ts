@@ -0,0 +1,166 @@
+// src/core/ledger.test.ts
+import ganache from 'ganache';
+import { Filter, Log, Web3Provider } from '@ethersproject/providers';
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { minimunAbi } from './abi';
+import { CtfLedgerReader } from './ledger';
+import { LedgerCheckpoint, LedgerCheckpointStore, LedgerEntry } from './types';
+
+/**
+ * Runtime code that emits its calldata as a log: four topics, then the event data.
+ * CALLDATACOPY(0, 0, size); LOG4(0x80, size - 0x80, mload(0), mload(0x20), mload(0x40), mload(0x60))
+ */
+const LOG_EMITTER_RUNTIME = '0x3660006000376060516040516020516000516080360360' + '80a400';
+const LOG_EMITTER_INIT = '0x601a600c600039601a6000f3' + LOG_EMITTER_RUNTIME.slice(2);
+
+const ctfEvents = new ethers.utils.Interface(minimunAbi["ctfEvents"]);
+const deployer = new ethers.Wallet('0x' + '22'.repeat(32));
+const trader = ethers.utils.getAddress('0x00000000000000000000000000000000000000aa');
+const conditionId = ethers.utils.id('condition');
+
+class MemoryCheckpointStore implements LedgerCheckpointStore {
+    saved: LedgerCheckpoint | null = null;
+    saves = 0;
+    async load() { return this.saved; }
+    async save(checkpoint: LedgerCheckpoint) { this.saved = checkpoint; this.saves++; }
+}
+
+/**
+ * Rejects `eth_getLogs` ranges wider than `maxRange` blocks, the way hosted nodes do.
+ */
+class RangeLimitedProvider extends Web3Provider {
+    ranges: [number, number][] = [];
+    maxRange = Infinity;
+
+    async getLogs(filter: Filter): Promise<Log[]> {
+        const from = Number(filter.fromBlock);
+        const to = Number(filter.toBlock);
+        if (to - from + 1 > this.maxRange) throw new Error('eth_getLogs block range too large');
+        this.ranges.push([from, to]);
+        return super.getLogs(filter);
+    }
+}
+
+describe('CtfLedgerReader', () => {
+    let provider: RangeLimitedProvider;
+    let contract: string;
+    let nonce: number;
+
+    const mine = async (blocks: number) => {
+        for (let i = 0; i < blocks; i++) await provider.send('evm_mine', []);
+    };
+    // Asks the node directly: ethers never reports a block number lower than one it has seen, even after a revert.
+    const mineTo = async (block: number) => mine(block - Number(await provider.send('eth_blockNumber', [])));
+
+    /** Signs a transaction that emits a split (negative amount: merge) for `trader`. */
+    const signEvent = (amount: number) => {
+        const name = amount < 0 ? 'PositionsMerge' : 'PositionSplit';
+        const log = ctfEvents.encodeEventLog(ctfEvents.getEvent(name), [
+            trader, ethers.constants.AddressZero, ethers.constants.HashZero, conditionId, [1, 2], Math.abs(amount),
+        ]);
+        return deployer.signTransaction({
+            to: contract, data: ethers.utils.hexConcat([...log.topics, log.data]),
+            nonce: nonce++, gasLimit: 100000, gasPrice: ethers.utils.parseUnits('20', 'gwei'), chainId: 1337,
+        });
+    };
+    const send = async (raw: string) => (await provider.sendTransaction(raw)).wait();
+
+    beforeEach(async () => {
+        const chain = ganache.provider({
+            logging: { quiet: true },
+            chain: { chainId: 1337 },
+            wallet: { accounts: [{ secretKey: deployer.privateKey, balance: ethers.utils.parseEther('10').toHexString() }] },
+        });
+        provider = new RangeLimitedProvider(chain as unknown as ethers.providers.ExternalProvider);
+        nonce = 0;
+        const receipt = await send(await deployer.signTransaction({
+            data: LOG_EMITTER_INIT, nonce: nonce++, gasLimit: 200000, gasPrice: ethers.utils.parseUnits('20', 'gwei'), chainId: 1337,
+        }));
+        contract = receipt.contractAddress;
+    });
+
+    it('decodes the trader\'s events up to the confirmed head', async () => {
+        await send(await signEvent(5));   // block 2
+        await send(await signEvent(-3));  // block 3
+        await mineTo(10);
+
+        const reader = new CtfLedgerReader(provider, { contractAddress: contract, confirmations: 2 });
+        const result = await reader.read(trader, { fromBlock: 0 });
+        expect(result.toBlock).toBe(8);
+        expect(result.entries.map((e) => [e.blockNumber, e.eventType, e.collateralFlow])).toEqual([
+            [2, 'PositionSplit', '-5'],
+            [3, 'PositionsMerge', '3'],
+        ]);
+    }, 30000);
+
+    it('halves the chunk when the node rejects a range', async () => {
+        await send(await signEvent(1));  // block 2
+        await mineTo(9);
+        await send(await signEvent(2));  // block 10
+        await mineTo(20);
+        provider.maxRange = 3;
+
+        const reader = new CtfLedgerReader(provider, { contractAddress: contract, confirmations: 0, chunkSize: 16 });
+        const result = await reader.read(trader, { fromBlock: 0 });
+        expect(result.entries.map((e) => e.blockNumber)).toEqual([2, 10]);
+        expect(provider.ranges.every(([from, to]) => to - from + 1 <= 3)).toBe(true);
+        // The accepted ranges cover every block exactly once.
+        expect(provider.ranges[0][0]).toBe(0);
+        provider.ranges.slice(1).forEach(([from], i) => expect(from).toBe(provider.ranges[i][1] + 1));
+        expect(provider.ranges[provider.ranges.length - 1][1]).toBe(20);
+    }, 30000);
+
+    it('does not move a stored checkpoint back when re-reading from an explicit fromBlock', async () => {
+        await send(await signEvent(1));
+        await mineTo(12);
+        const store = new MemoryCheckpointStore();
+        const reader = new CtfLedgerReader(provider, { contractAddress: contract, confirmations: 2, store });
+
+        await reader.read(trader, { fromBlock: 0 });
+        expect(store.saved?.nextBlock).toBe(11);
+
+        const saves = store.saves;
+        await reader.read(trader, { fromBlock: 0, toBlock: 5 });
+        expect(store.saves).toBe(saves);
+        expect(store.saved?.nextBlock).toBe(11);
+
+        // Resuming from the checkpoint itself, or getting past it, still saves.
+        await mineTo(14);
+        await reader.read(trader, { fromBlock: 11 });
+        expect(store.saved?.nextBlock).toBe(13);
+        await mineTo(16);
+        await reader.read(trader, { fromBlock: 0 });
+        expect(store.saved?.nextBlock).toBe(15);
+    }, 30000);
+
+    it('rewinds after a reorg without delivering entries again', async () => {
+        await send(await signEvent(5));  // block 2
+        await mineTo(6);
+        const snapshot = await provider.send('evm_snapshot', []);
+        const replayed = await signEvent(-3);
+        await send(replayed);            // block 7
+        await mineTo(10);
+
+        const store = new MemoryCheckpointStore();
+        const reader = new CtfLedgerReader(provider, { contractAddress: contract, confirmations: 2, store });
+        const first = await reader.read(trader, { fromBlock: 0 });
+        expect(first.entries.map((e) => e.blockNumber)).toEqual([2, 7]);
+        expect(store.saved?.nextBlock).toBe(9);
+
+        // Reorg from block 7: the same transaction is mined again, followed by a new one.
+        await provider.send('evm_revert', [snapshot]);
+        await provider.send('evm_increaseTime', [60]);
+        await send(replayed);            // block 7
+        await send(await signEvent(4));  // block 8
+        await mineTo(12);
+
+        const delivered: LedgerEntry[] = [];
+        const second = await reader.read(trader, { onEntries: (entries) => { delivered.push(...entries); } });
+        expect(second.rewound).toBe(true);
+        expect(second.fromBlock).toBe(6);
+        expect(delivered.map((e) => [e.blockNumber, e.collateralFlow])).toEqual([[8, '-4']]);
+        expect(second.entries).toEqual(delivered);
+        expect(store.saved?.nextBlock).toBe(11);
+    }, 30000);
+});
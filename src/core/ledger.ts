@@ -0,0 +1,215 @@
+// src/core/ledger.ts
+import { JsonRpcProvider, Log } from '@ethersproject/providers';
+import { ethers } from 'ethers';
+import { getContractConfig } from '@polymarket/clob-client';
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { throwIfAborted } from './pagination';
+import { minimunAbi } from './abi';
+import {
+    LedgerCheckpoint,
+    LedgerCheckpointStore,
+    LedgerEntry,
+    LedgerReaderOptions,
+    LedgerReadOptions,
+    LedgerReadResult
+} from './types';
+
+const DEFAULT_CHUNK_SIZE = 2000;
+const DEFAULT_CONFIRMATIONS = 64;
+
+const ctfEvents = new ethers.utils.Interface(minimunAbi["ctfEvents"]);
+const EVENT_TOPICS = [
+    ctfEvents.getEventTopic('PositionSplit'),
+    ctfEvents.getEventTopic('PositionsMerge'),
+    ctfEvents.getEventTopic('PayoutRedemption'),
+];
+
+/**
+ * Decodes a Conditional Tokens log into a ledger entry.
+ *
+ * `collateralFlow` is the USDC moved from the trader's point of view: negative for splits, positive
+ * for merges and redemptions, and zero for nested positions (non-zero parent collection), where no
+ * collateral changes hands.
+ * @returns `null` for logs that are not split, merge or redemption events.
+ */
+export function decodeLedgerLog(log: Log): LedgerEntry | null {
+    let parsed: ethers.utils.LogDescription;
+    try {
+        parsed = ctfEvents.parseLog(log);
+    } catch {
+        return null;
+    }
+    const eventType = parsed.name as LedgerEntry['eventType'];
+    const isRedemption = eventType === 'PayoutRedemption';
+    const indexSet = (isRedemption ? parsed.args.indexSets : parsed.args.partition) as ethers.BigNumber[];
+    const amount = (isRedemption ? parsed.args.payout : parsed.args.amount) as ethers.BigNumber;
+    const nested = parsed.args.parentCollectionId !== ethers.constants.HashZero;
+    const flow = nested ? ethers.constants.Zero : eventType === 'PositionSplit' ? amount.mul(-1) : amount;
+    return {
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        txHash: log.transactionHash,
+        eventType,
+        trader: (isRedemption ? parsed.args.redeemer : parsed.args.stakeholder).toLowerCase(),
+        conditionId: parsed.args.conditionId,
+        indexSet: indexSet.map((i) => i.toNumber()),
+        amount: amount.toString(),
+        tokenQty: isRedemption ? String(indexSet.length) : amount.toString(),
+        collateralFlow: flow.toString(),
+    };
+}
+
+/** Identifies a log across re-reads of the same block range. */
+function entryKey(entry: Pick<LedgerEntry, 'txHash' | 'logIndex'>): string {
+    return `${entry.txHash}:${entry.logIndex}`;
+}
+
+/**
+ * Whether a node error means the requested log range was too large.
+ */
+function isRangeError(error: unknown): boolean {
+    const message = String((error as any)?.error?.message ?? (error as any)?.message ?? error).toLowerCase();
+    return /range|too many|limit exceeded|response size|10000 results|timeout/.test(message);
+}
+
+/**
+ * Reads a trader's split, merge and redemption events from the Conditional Tokens contract.
+ *
+ * Only blocks at least `confirmations` behind the head are read, so entries are final. Reads
+ * resume from the stored checkpoint; if the checkpointed block has since been reorged away,
+ * the read restarts `confirmations` blocks earlier and reports `rewound`. Entries delivered before
+ * the rewind are remembered in the checkpoint and not delivered again. A read from an explicit
+ * `fromBlock` only moves the stored checkpoint forward, unless it starts at the checkpoint.
+ *
+ * Splits and merges made through the neg-risk adapter are emitted with the adapter as the
+ * stakeholder and are therefore not attributed to the trader.
+ */
+export class CtfLedgerReader {
+    private readonly chunkSize: number;
+    private readonly confirmations: number;
+    private contract: string | null;
+
+    constructor(private readonly provider: JsonRpcProvider, private readonly options: LedgerReaderOptions = {}) {
+        this.chunkSize = Math.max(1, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE));
+        this.confirmations = Math.max(0, Math.floor(options.confirmations ?? DEFAULT_CONFIRMATIONS));
+        this.contract = options.contractAddress ? ethers.utils.getAddress(options.contractAddress) : null;
+    }
+
+    /**
+     * Reads a trader's ledger from the checkpoint (or `fromBlock`) up to the confirmed head.
+     * @param trader - The trader's address (the proxy wallet for Polymarket accounts).
+     * @param options - Block range, per-chunk callback and abort signal.
+     * @throws {PolynanceApiError} `INVALID_PARAMETER` if there is neither a checkpoint nor `fromBlock`, `ABORTED` when the signal fires.
+     */
+    async read(trader: string, options: LedgerReadOptions = {}): Promise<LedgerReadResult> {
+        const methodName = 'readLedger';
+        const address = ethers.utils.getAddress(trader);
+        const contract = await this.resolveContract();
+        const saved = await this.options.store?.load(address.toLowerCase(), contract) ?? null;
+
+        let fromBlock = options.fromBlock ?? saved?.nextBlock;
+        if (fromBlock === undefined) {
+            throw new PolynanceApiError("Parameter 'fromBlock' is required when no checkpoint exists.", PolynanceErrorCode.INVALID_PARAMETER, {
+                methodName,
+                context: { trader: address },
+            });
+        }
+        let rewound = false;
+        if (options.fromBlock === undefined && saved?.lastBlockHash && saved.nextBlock > 0) {
+            const block = await this.provider.getBlock(saved.nextBlock - 1);
+            if (!block || block.hash !== saved.lastBlockHash) {
+                fromBlock = Math.max(0, saved.nextBlock - 1 - this.confirmations);
+                rewound = true;
+            }
+        }
+
+        const head = await this.provider.getBlockNumber();
+        const toBlock = Math.min(options.toBlock ?? Infinity, head - this.confirmations);
+        const topics = [EVENT_TOPICS, ethers.utils.hexZeroPad(address, 32)];
+        const entries: LedgerEntry[] = [];
+        const delivered = new Set(rewound ? (saved?.recentEntries ?? []).map(entryKey) : []);
+        let recentEntries = saved?.recentEntries ?? [];
+        // Re-reading an older range must not move a stored checkpoint back.
+        const saveProgress = (nextBlock: number) => !saved || options.fromBlock === undefined
+            || options.fromBlock === saved.nextBlock || nextBlock > saved.nextBlock;
+        let checkpoint: LedgerCheckpoint = saved && !rewound && options.fromBlock === undefined
+            ? saved
+            : { trader: address.toLowerCase(), contract, nextBlock: fromBlock };
+
+        let start = fromBlock;
+        let chunk = this.chunkSize;
+        while (start <= toBlock) {
+            throwIfAborted(options.signal, methodName);
+            const end = Math.min(start + chunk - 1, toBlock);
+            let logs: Log[];
+            try {
+                logs = await this.provider.getLogs({ address: contract, fromBlock: start, toBlock: end, topics });
+            } catch (error) {
+                if (chunk > 1 && isRangeError(error)) {
+                    chunk = Math.max(1, Math.floor(chunk / 2));
+                    continue;
+                }
+                throw error;
+            }
+
+            const decoded = logs
+                .filter((log) => !log.removed)
+                .map(decodeLedgerLog)
+                .filter((entry): entry is LedgerEntry => entry !== null && !delivered.has(entryKey(entry)))
+                .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+            await options.onEntries?.(decoded, { fromBlock: start, toBlock: end });
+            entries.push(...decoded);
+
+            const lastBlock = await this.provider.getBlock(end);
+            // Keep what a rewind from `end + 1` would read again.
+            recentEntries = [...recentEntries, ...decoded.map(({ blockNumber, txHash, logIndex }) => ({ blockNumber, txHash, logIndex }))]
+                .filter((entry) => entry.blockNumber >= end - this.confirmations);
+            checkpoint = { trader: address.toLowerCase(), contract, nextBlock: end + 1, lastBlockHash: lastBlock?.hash, recentEntries };
+            if (saveProgress(checkpoint.nextBlock)) await this.options.store?.save(checkpoint);
+            start = end + 1;
+        }
+
+        return { entries, fromBlock, toBlock: start - 1, checkpoint, rewound };
+    }
+
+    private async resolveContract(): Promise<string> {
+        if (!this.contract) {
+            const { chainId } = await this.provider.getNetwork();
+            this.contract = ethers.utils.getAddress(getContractConfig(chainId).conditionalTokens);
+        }
+        return this.contract;
+    }
+}
+
+/**
+ * Keeps ledger checkpoints in a JSON file keyed by contract and trader.
+ */
+export class FileLedgerCheckpointStore implements LedgerCheckpointStore {
+    constructor(private readonly filePath: string) {}
+
+    async load(trader: string, contract: string): Promise<LedgerCheckpoint | null> {
+        const all = await this.readAll();
+        return all[`${contract.toLowerCase()}:${trader.toLowerCase()}`] ?? null;
+    }
+
+    async save(checkpoint: LedgerCheckpoint): Promise<void> {
+        const fs = await import('fs/promises');
+        const all = await this.readAll();
+        all[`${checkpoint.contract.toLowerCase()}:${checkpoint.trader.toLowerCase()}`] = checkpoint;
+        // Write then rename so a crash never leaves a truncated file behind.
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(all, null, 2), 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+    }
+
+    private async readAll(): Promise<Record<string, LedgerCheckpoint>> {
+        const fs = await import('fs/promises');
+        try {
+            const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            return typeof parsed === 'object' && parsed !== null ? parsed : {};
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+            throw error;
+        }
+    }
+}
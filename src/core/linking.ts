@@ -0,0 +1,284 @@
+// src/core/linking.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { endDatesMatch, questionSimilarity } from './matching';
+import {
+    CanonicalEvent,
+    CanonicalEventMember,
+    EventLinkingOptions,
+    EventLinkOverrides,
+    Market,
+    MarketRef,
+    PredictionProvider
+} from './types';
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+const DEFAULT_MAX_END_DATE_DIFF_MS = 24 * 60 * 60 * 1000;
+/** Providers in the order their markets are preferred as the anchor of a new canonical event. */
+const ANCHOR_ORDER: PredictionProvider[] = ['polymarket', 'limitless', 'truemarket'];
+
+/**
+ * A canonical event under construction.
+ */
+interface Cluster {
+    /** Id fixed by an override, if any. */
+    overrideId?: string;
+    overrideTitle?: string;
+    members: Map<string, { market: Market; confidence: number; source: CanonicalEventMember['source'] }>;
+}
+
+function refKey(protocol: PredictionProvider, marketId: string): string {
+    return `${protocol}:${marketId}`;
+}
+
+function anchorRank(protocol: PredictionProvider): number {
+    const rank = ANCHOR_ORDER.indexOf(protocol);
+    return rank === -1 ? ANCHOR_ORDER.length : rank;
+}
+
+function isMarketRef(value: unknown): value is MarketRef {
+    return typeof value === 'object' && value !== null
+        && typeof (value as MarketRef).protocol === 'string'
+        && typeof (value as MarketRef).marketId === 'string';
+}
+
+/**
+ * Checks the shape of an overrides document.
+ * @throws {PolynanceApiError} With `INVALID_PARAMETER` if it is malformed.
+ */
+export function parseEventLinkOverrides(data: unknown, source = 'overrides'): EventLinkOverrides {
+    const fail = (reason: string) => new PolynanceApiError(`Invalid event link ${source}: ${reason}`, PolynanceErrorCode.INVALID_PARAMETER, {
+        methodName: 'parseEventLinkOverrides',
+    });
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) throw fail('expected an object.');
+    const { events, separate } = data as EventLinkOverrides;
+    if (events !== undefined) {
+        if (!Array.isArray(events)) throw fail('`events` must be an array.');
+        events.forEach((event, i) => {
+            if (!Array.isArray(event?.members) || !event.members.every(isMarketRef)) {
+                throw fail(`events[${i}].members must be an array of { protocol, marketId }.`);
+            }
+            if (event.id !== undefined && typeof event.id !== 'string') throw fail(`events[${i}].id must be a string.`);
+        });
+    }
+    if (separate !== undefined) {
+        if (!Array.isArray(separate) || !separate.every((group) => Array.isArray(group) && group.every(isMarketRef))) {
+            throw fail('`separate` must be an array of arrays of { protocol, marketId }.');
+        }
+    }
+    return { events, separate };
+}
+
+/**
+ * Reads an overrides JSON file. A missing file yields no overrides.
+ * @throws {PolynanceApiError} With `INVALID_PARAMETER` if the file is not valid JSON or is malformed.
+ */
+export async function loadEventLinkOverrides(filePath: string): Promise<EventLinkOverrides> {
+    const fs = await import('fs/promises');
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw error;
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new PolynanceApiError(`Invalid event link overrides file ${filePath}: not valid JSON.`, PolynanceErrorCode.INVALID_PARAMETER, {
+            methodName: 'loadEventLinkOverrides',
+            cause: error instanceof Error ? error : undefined,
+        });
+    }
+    return parseEventLinkOverrides(parsed, `overrides file ${filePath}`);
+}
+
+/**
+ * Links markets of different providers that list the same real-world question under one canonical id.
+ *
+ * Manual overrides are applied first; remaining markets are linked greedily, most similar pair first,
+ * when their titles are similar enough and their end dates agree. A canonical event holds at most one
+ * market per provider, and markets listed together in `separate` are never linked. Every market added
+ * belongs to exactly one canonical event, possibly on its own.
+ *
+ * Canonical ids are kept across calls to `add` and `setOverrides` as long as the event keeps one of its markets.
+ */
+export class EventLinker {
+    private readonly minConfidence: number;
+    private readonly maxEndDateDiffMs: number;
+    private overrides: EventLinkOverrides;
+    private markets = new Map<string, Market>();
+    private events = new Map<string, CanonicalEvent>();
+    private index = new Map<string, string>();
+
+    constructor(options?: EventLinkingOptions) {
+        this.minConfidence = options?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+        this.maxEndDateDiffMs = options?.maxEndDateDiffMs ?? DEFAULT_MAX_END_DATE_DIFF_MS;
+        this.overrides = options?.overrides ? parseEventLinkOverrides(options.overrides) : {};
+    }
+
+    /**
+     * Replaces the manual overrides and re-links every known market.
+     */
+    setOverrides(overrides: EventLinkOverrides) {
+        this.overrides = parseEventLinkOverrides(overrides);
+        this.rebuild();
+    }
+
+    /**
+     * Adds markets (replacing earlier copies of the same market) and re-links.
+     * @returns The canonical events the given markets belong to.
+     */
+    add(markets: Market[]): CanonicalEvent[] {
+        markets.forEach((m) => this.markets.set(refKey(m.protocol, m.id), m));
+        this.rebuild();
+        const ids = new Set(markets.map((m) => this.index.get(refKey(m.protocol, m.id))!));
+        return Array.from(ids, (id) => this.events.get(id)!);
+    }
+
+    /**
+     * Canonical id of a provider market. Markets named in an override event resolve to its id even before they are added.
+     */
+    canonicalIdOf(protocol: PredictionProvider, marketId: string): string | undefined {
+        const key = refKey(protocol, marketId);
+        return this.index.get(key) ?? this.overrideIdOf(key);
+    }
+
+    /**
+     * The canonical event a provider market belongs to.
+     */
+    resolve(protocol: PredictionProvider, marketId: string): CanonicalEvent | undefined {
+        const id = this.canonicalIdOf(protocol, marketId);
+        return id ? this.events.get(id) : undefined;
+    }
+
+    /**
+     * A canonical event by id, with its provider markets.
+     */
+    get(canonicalId: string): CanonicalEvent | undefined {
+        return this.events.get(canonicalId);
+    }
+
+    /** All canonical events. */
+    list(): CanonicalEvent[] {
+        return Array.from(this.events.values());
+    }
+
+    private overrideIdOf(key: string): string | undefined {
+        const event = this.overrides.events?.find((e) => e.id && e.members.some((m) => refKey(m.protocol, m.marketId) === key));
+        return event?.id;
+    }
+
+    private rebuild() {
+        const separated = new Set<string>();
+        for (const group of this.overrides.separate ?? []) {
+            const keys = group.map((m) => refKey(m.protocol, m.marketId));
+            keys.forEach((a) => keys.forEach((b) => { if (a !== b) separated.add(`${a}|${b}`); }));
+        }
+
+        const clusters: Cluster[] = [];
+        const clusterOf = new Map<string, Cluster>();
+        for (const event of this.overrides.events ?? []) {
+            const cluster: Cluster = { overrideId: event.id, overrideTitle: event.title, members: new Map() };
+            for (const ref of event.members) {
+                const key = refKey(ref.protocol, ref.marketId);
+                const market = this.markets.get(key);
+                if (!market || clusterOf.has(key)) continue;
+                cluster.members.set(key, { market, confidence: 1, source: 'override' });
+                clusterOf.set(key, cluster);
+            }
+            if (cluster.members.size > 0) clusters.push(cluster);
+        }
+        this.markets.forEach((market, key) => {
+            if (clusterOf.has(key)) return;
+            const cluster: Cluster = { members: new Map([[key, { market, confidence: 1, source: 'match' as const }]]) };
+            clusters.push(cluster);
+            clusterOf.set(key, cluster);
+        });
+
+        const keys = Array.from(this.markets.keys());
+        const pairs: { a: string; b: string; confidence: number }[] = [];
+        for (let i = 0; i < keys.length; i++) {
+            for (let j = i + 1; j < keys.length; j++) {
+                const a = this.markets.get(keys[i])!;
+                const b = this.markets.get(keys[j])!;
+                if (a.protocol === b.protocol || separated.has(`${keys[i]}|${keys[j]}`)) continue;
+                if (!endDatesMatch(a.endDate, b.endDate, this.maxEndDateDiffMs)) continue;
+                const confidence = questionSimilarity(a.title, b.title);
+                if (confidence >= this.minConfidence) pairs.push({ a: keys[i], b: keys[j], confidence });
+            }
+        }
+        pairs.sort((x, y) => y.confidence - x.confidence);
+
+        for (const { a, b, confidence } of pairs) {
+            const ca = clusterOf.get(a)!;
+            const cb = clusterOf.get(b)!;
+            if (ca === cb || !this.canMerge(ca, cb, separated)) continue;
+            // Fold the smaller (or non-override) cluster into the other; the joining side records the link's confidence.
+            const [into, from, joiner] = cb.overrideId !== undefined && ca.overrideId === undefined ? [cb, ca, a] : [ca, cb, b];
+            from.members.forEach((member, key) => {
+                into.members.set(key, member.source === 'override' ? member : { ...member, confidence: key === joiner ? confidence : member.confidence });
+                clusterOf.set(key, into);
+            });
+            if (into.overrideId === undefined) {
+                into.overrideId = from.overrideId;
+                into.overrideTitle = from.overrideTitle;
+            }
+            clusters.splice(clusters.indexOf(from), 1);
+        }
+
+        const previous = this.index;
+        this.events = new Map();
+        this.index = new Map();
+        for (const cluster of clusters) {
+            const event = this.toEvent(cluster, previous);
+            this.events.set(event.id, event);
+            cluster.members.forEach((_, key) => this.index.set(key, event.id));
+        }
+    }
+
+    private canMerge(a: Cluster, b: Cluster, separated: Set<string>): boolean {
+        if (a.overrideId !== undefined && b.overrideId !== undefined && a.overrideId !== b.overrideId) return false;
+        const protocols = new Set(Array.from(a.members.values(), (m) => m.market.protocol));
+        for (const [keyB, member] of b.members) {
+            if (protocols.has(member.market.protocol)) return false;
+            for (const keyA of a.members.keys()) {
+                if (separated.has(`${keyA}|${keyB}`)) return false;
+            }
+        }
+        return true;
+    }
+
+    private toEvent(cluster: Cluster, previous: Map<string, string>): CanonicalEvent {
+        const members = Array.from(cluster.members.entries())
+            .sort(([, x], [, y]) => anchorRank(x.market.protocol) - anchorRank(y.market.protocol));
+        const anchor = members[0][1].market;
+        let id = cluster.overrideId;
+        if (!id) {
+            // Keep the id the event had before unless another event already took it; otherwise name it after a member.
+            const free = (candidate: string | undefined): candidate is string =>
+                candidate !== undefined && !this.events.has(candidate) && !this.isOverrideId(candidate);
+            id = members.map(([key]) => previous.get(key)).find(free)
+                ?? members.map(([key]) => key).find(free)
+                ?? `${refKey(anchor.protocol, anchor.id)}#${this.events.size}`;
+        }
+        return {
+            id,
+            title: cluster.overrideTitle ?? anchor.title,
+            endDate: anchor.endDate,
+            members: members.map(([, m]) => ({
+                protocol: m.market.protocol,
+                marketId: m.market.id,
+                slug: m.market.slug,
+                title: m.market.title,
+                confidence: m.confidence,
+                source: m.source,
+            })),
+            markets: members.map(([, m]) => m.market),
+        };
+    }
+
+    private isOverrideId(id: string): boolean {
+        return (this.overrides.events ?? []).some((e) => e.id === id);
+    }
+}
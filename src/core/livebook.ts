@@ -0,0 +1,480 @@
+// src/core/livebook.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { computeBackoffDelay, resolveBackoffPolicy, ResolvedBackoffPolicy } from './backoff';
+import {
+    BookDepth,
+    LiveOrderBookHandlers,
+    LiveOrderBookOptions,
+    OrderBookChange,
+    OrderBookFeed,
+    OrderBookLevel,
+    OrderBookLevelChange,
+    OrderBookSummary,
+    OrderBookUpdate
+} from './types';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_VERIFY_INTERVAL_MS = 30000;
+
+const POLYMARKET_MARKET_WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+const POLYMARKET_PING_INTERVAL_MS = 10000;
+
+/**
+ * Local state of one asset's book. Sizes are keyed by price.
+ */
+interface AssetBook {
+    market: string;
+    bids: Map<number, number>;
+    asks: Map<number, number>;
+    hash: string;
+    timestamp: string | number;
+    /** Sorted levels, rebuilt lazily after a change. */
+    sorted: { bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null;
+}
+
+function toLevelMap(levels: { price: number | string; size: number | string }[]): Map<number, number> {
+    const map = new Map<number, number>();
+    for (const level of levels) {
+        const size = Number(level.size);
+        if (size > 0) map.set(Number(level.price), size);
+    }
+    return map;
+}
+
+/** Milliseconds of a book timestamp given as a number or a numeric or ISO string; `NaN` if unknown. */
+function timestampMillis(timestamp: string | number | undefined): number {
+    if (typeof timestamp === 'number') return timestamp;
+    if (!timestamp) return NaN;
+    const numeric = Number(timestamp);
+    return Number.isFinite(numeric) ? numeric : Date.parse(timestamp);
+}
+
+/**
+ * Lists the levels that differ between two sides of a book, as the changes that turn `from` into `to`.
+ */
+function diffLevels(side: "BUY" | "SELL", from: Map<number, number>, to: Map<number, number>): OrderBookLevelChange[] {
+    const changes: OrderBookLevelChange[] = [];
+    to.forEach((size, price) => {
+        if (from.get(price) !== size) changes.push({ side, price, size });
+    });
+    from.forEach((_, price) => {
+        if (!to.has(price)) changes.push({ side, price, size: 0 });
+    });
+    return changes;
+}
+
+/**
+ * An exchange's order books, kept current from a snapshot plus a stream of incremental updates.
+ *
+ * Without a feed (or while it is down) the books are re-snapshotted every `pollIntervalMs`.
+ * While the feed is up, a fresh snapshot is compared with the local state every `verifyIntervalMs`:
+ * a matching `hash` confirms consistency; otherwise any drifted levels are replaced and reported
+ * as a `resync` change. A snapshot older than the last update applied to a book is ignored, since
+ * the book already contains changes the snapshot does not.
+ */
+export class LiveOrderBook {
+    private books = new Map<string, AssetBook>();
+    private listeners = new Set<(change: OrderBookChange) => void>();
+    private readonly pollIntervalMs: number;
+    private readonly verifyIntervalMs: number;
+    private readonly reconnectPolicy: ResolvedBackoffPolicy;
+    private readonly feed: OrderBookFeed | null;
+    private subscription: { close: () => void } | null = null;
+    private feedUp = false;
+    private feedAttempts = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private running = false;
+
+    /**
+     * @param fetchSnapshot - Returns the exchange's books keyed by asset id (e.g. `getOrderbook`).
+     * @param feed - Streaming source of updates, or `null` to rely on snapshots.
+     * @param options - Intervals and reconnect policy.
+     * @param handlers - Change and error callbacks.
+     */
+    constructor(
+        private readonly fetchSnapshot: () => Promise<Record<string, OrderBookSummary>>,
+        feed: OrderBookFeed | null,
+        options?: LiveOrderBookOptions,
+        private readonly handlers?: LiveOrderBookHandlers
+    ) {
+        this.feed = feed;
+        this.pollIntervalMs = Math.max(50, options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        this.verifyIntervalMs = Math.max(0, options?.verifyIntervalMs ?? DEFAULT_VERIFY_INTERVAL_MS);
+        this.reconnectPolicy = resolveBackoffPolicy(options?.reconnect);
+        if (handlers?.onChange) this.listeners.add(handlers.onChange);
+    }
+
+    /**
+     * Loads the initial snapshot and starts following updates.
+     */
+    async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        await this.resnapshot();
+        this.connectFeed();
+        this.scheduleSnapshot();
+    }
+
+    /**
+     * Stops the feed and all timers. The last known state stays readable.
+     */
+    stop() {
+        this.running = false;
+        this.subscription?.close();
+        this.subscription = null;
+        this.feedUp = false;
+        if (this.timer) clearTimeout(this.timer);
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.timer = null;
+        this.reconnectTimer = null;
+    }
+
+    /** Whether incremental updates are currently streaming (as opposed to re-snapshotting). */
+    get streaming(): boolean {
+        return this.feedUp;
+    }
+
+    /** Asset ids with a book. */
+    assets(): string[] {
+        return Array.from(this.books.keys());
+    }
+
+    /**
+     * Returns a copy of an asset's book in the `getOrderbook` shape, bids descending and asks ascending.
+     */
+    book(assetId: string): OrderBookSummary | undefined {
+        const book = this.books.get(assetId);
+        if (!book) return undefined;
+        const { bids, asks } = this.sortedLevels(book);
+        return {
+            market: book.market,
+            asset_id: assetId,
+            timestamp: book.timestamp,
+            bids: bids.map((l) => ({ ...l })),
+            asks: asks.map((l) => ({ ...l })),
+            hash: book.hash,
+        };
+    }
+
+    bestBid(assetId: string): OrderBookLevel | null {
+        const book = this.books.get(assetId);
+        const level = book ? this.sortedLevels(book).bids[0] : undefined;
+        return level ? { ...level } : null;
+    }
+
+    bestAsk(assetId: string): OrderBookLevel | null {
+        const book = this.books.get(assetId);
+        const level = book ? this.sortedLevels(book).asks[0] : undefined;
+        return level ? { ...level } : null;
+    }
+
+    /** Mid of the best bid and ask; `null` if either side is empty. */
+    mid(assetId: string): number | null {
+        const bid = this.bestBid(assetId);
+        const ask = this.bestAsk(assetId);
+        return bid && ask ? (bid.price + ask.price) / 2 : null;
+    }
+
+    /** Best ask minus best bid; `null` if either side is empty. */
+    spread(assetId: string): number | null {
+        const bid = this.bestBid(assetId);
+        const ask = this.bestAsk(assetId);
+        return bid && ask ? ask.price - bid.price : null;
+    }
+
+    /**
+     * Sums liquidity on one side, best level first.
+     * @param side - `bids` or `asks`.
+     * @param options - Count at most `levels` levels, and/or only levels within `withinPrice` of the best price.
+     */
+    depth(assetId: string, side: 'bids' | 'asks', options?: { levels?: number; withinPrice?: number }): BookDepth {
+        const book = this.books.get(assetId);
+        const levels = book ? this.sortedLevels(book)[side] : [];
+        const best = levels[0]?.price;
+        const result: BookDepth = { size: 0, notional: 0, levels: 0 };
+        for (const level of levels) {
+            if (options?.levels !== undefined && result.levels >= options.levels) break;
+            if (options?.withinPrice !== undefined && Math.abs(level.price - best) > options.withinPrice + 1e-12) break;
+            result.size += level.size;
+            result.notional += level.price * level.size;
+            result.levels += 1;
+        }
+        return result;
+    }
+
+    /**
+     * Subscribes to book changes.
+     * @returns A function that removes the listener.
+     */
+    onChange(listener: (change: OrderBookChange) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Applies a feed message. Exposed so callers with their own stream can drive the book directly.
+     */
+    apply(update: OrderBookUpdate) {
+        if (update.type === 'snapshot') {
+            this.replace(update.book, 'snapshot');
+            return;
+        }
+        const book = this.books.get(update.assetId);
+        if (!book) return; // Not part of this exchange, or not loaded yet; the next snapshot covers it.
+        for (const change of update.changes) {
+            const levels = change.side === 'BUY' ? book.bids : book.asks;
+            if (change.size > 0) levels.set(change.price, change.size);
+            else levels.delete(change.price);
+        }
+        if (update.hash !== undefined) book.hash = update.hash;
+        if (update.timestamp !== undefined) book.timestamp = update.timestamp;
+        book.sorted = null;
+        this.emit(update.assetId, 'delta', update.changes);
+    }
+
+    /**
+     * Fetches a snapshot and reconciles every asset's book with it.
+     */
+    private async resnapshot() {
+        const snapshot = await this.fetchSnapshot();
+        for (const summary of Object.values(snapshot)) {
+            const book = this.books.get(summary.asset_id);
+            // Same hash as the state we hold: nothing drifted.
+            if (book && summary.hash && book.hash === summary.hash) continue;
+            // Taken before an update that arrived while it was being fetched: it would undo that update.
+            if (book && timestampMillis(summary.timestamp) < timestampMillis(book.timestamp)) continue;
+            this.replace(summary, book && this.feedUp ? 'resync' : 'snapshot');
+        }
+    }
+
+    private replace(summary: OrderBookSummary, source: OrderBookChange['source']) {
+        const previous = this.books.get(summary.asset_id);
+        const next: AssetBook = {
+            market: summary.market,
+            bids: toLevelMap(summary.bids),
+            asks: toLevelMap(summary.asks),
+            hash: summary.hash,
+            timestamp: summary.timestamp,
+            sorted: null,
+        };
+        this.books.set(summary.asset_id, next);
+        const changes = [
+            ...diffLevels('BUY', previous?.bids ?? new Map(), next.bids),
+            ...diffLevels('SELL', previous?.asks ?? new Map(), next.asks),
+        ];
+        if (changes.length > 0 || !previous) {
+            this.emit(summary.asset_id, source, changes);
+        }
+    }
+
+    private sortedLevels(book: AssetBook): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+        if (!book.sorted) {
+            const toLevels = (map: Map<number, number>) => Array.from(map.entries()).map(([price, size]) => ({ price, size }));
+            book.sorted = {
+                bids: toLevels(book.bids).sort((a, b) => b.price - a.price),
+                asks: toLevels(book.asks).sort((a, b) => a.price - b.price),
+            };
+        }
+        return book.sorted;
+    }
+
+    private emit(assetId: string, source: OrderBookChange['source'], changes: OrderBookLevelChange[]) {
+        const change: OrderBookChange = {
+            assetId,
+            source,
+            changes,
+            bestBid: this.bestBid(assetId)?.price ?? null,
+            bestAsk: this.bestAsk(assetId)?.price ?? null,
+        };
+        for (const listener of Array.from(this.listeners)) {
+            try {
+                listener(change);
+            } catch (error) {
+                console.error('Error in order book change listener:', error);
+            }
+        }
+    }
+
+    private reportError(error: unknown, message: string) {
+        const apiError = error instanceof PolynanceApiError
+            ? error
+            : new PolynanceApiError(message, PolynanceErrorCode.NETWORK_ERROR, {
+                cause: error instanceof Error ? error : undefined,
+                methodName: 'LiveOrderBook',
+                context: { assets: this.assets() },
+            });
+        this.handlers?.onError?.(apiError);
+    }
+
+    /**
+     * Re-snapshots on the poll interval while the feed is down, or on the verify interval while it is up.
+     */
+    private scheduleSnapshot() {
+        if (!this.running) return;
+        const interval = this.feedUp ? this.verifyIntervalMs : this.pollIntervalMs;
+        if (interval === 0) return;
+        this.timer = setTimeout(async () => {
+            this.timer = null;
+            try {
+                await this.resnapshot();
+            } catch (error) {
+                this.reportError(error, 'Failed to refresh the order book snapshot.');
+            }
+            this.scheduleSnapshot();
+        }, interval);
+    }
+
+    private connectFeed() {
+        if (!this.feed || !this.running) return;
+        const assetIds = this.assets();
+        if (assetIds.length === 0) return;
+        try {
+            this.subscription = this.feed.subscribe(assetIds, {
+                onUpdate: (update) => {
+                    if (!this.feedUp) this.setFeedUp(true);
+                    this.apply(update);
+                },
+                onError: (error) => this.onFeedError(error),
+            });
+        } catch (error) {
+            this.onFeedError(error);
+        }
+    }
+
+    private setFeedUp(up: boolean) {
+        this.feedUp = up;
+        if (up) this.feedAttempts = 0;
+        // Switch between the poll and verify cadence.
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.scheduleSnapshot();
+    }
+
+    private onFeedError(error: unknown) {
+        this.subscription?.close();
+        this.subscription = null;
+        if (this.feedUp) this.setFeedUp(false);
+        this.reportError(error, 'Order book feed failed; falling back to snapshots.');
+        if (!this.running || this.reconnectTimer) return;
+
+        this.feedAttempts += 1;
+        if (this.feedAttempts > this.reconnectPolicy.maxAttempts) return;
+        const delay = computeBackoffDelay(this.feedAttempts, this.reconnectPolicy);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connectFeed();
+        }, delay);
+    }
+}
+
+/**
+ * Parses one Polymarket market-channel event into order book updates.
+ * Handles both the per-asset `changes` format and the batched `price_changes` format.
+ */
+function parsePolymarketEvent(event: any): OrderBookUpdate[] {
+    const levels = (items: any[] | undefined) => (items ?? []).map((l) => ({ price: Number(l.price), size: Number(l.size) }));
+    const side = (s: unknown): "BUY" | "SELL" => String(s).toUpperCase() === 'SELL' ? 'SELL' : 'BUY';
+
+    switch (event?.event_type) {
+        case 'book':
+            return [{
+                type: 'snapshot',
+                book: {
+                    market: String(event.market ?? ''),
+                    asset_id: String(event.asset_id),
+                    timestamp: event.timestamp ?? Date.now(),
+                    bids: levels(event.bids ?? event.buys),
+                    asks: levels(event.asks ?? event.sells),
+                    hash: String(event.hash ?? ''),
+                },
+            }];
+        case 'price_change': {
+            if (Array.isArray(event.price_changes)) {
+                return event.price_changes.map((c: any) => ({
+                    type: 'delta' as const,
+                    assetId: String(c.asset_id),
+                    changes: [{ side: side(c.side), price: Number(c.price), size: Number(c.size) }],
+                    hash: c.hash,
+                    timestamp: event.timestamp,
+                }));
+            }
+            return [{
+                type: 'delta',
+                assetId: String(event.asset_id),
+                changes: (event.changes ?? []).map((c: any) => ({ side: side(c.side), price: Number(c.price), size: Number(c.size) })),
+                hash: event.hash,
+                timestamp: event.timestamp,
+            }];
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * `OrderBookFeed` backed by the public Polymarket CLOB market WebSocket.
+ * Uses the global `WebSocket` unless a constructor is given (e.g. the `ws` package on Node.js < 22).
+ */
+export class PolymarketBookFeed implements OrderBookFeed {
+    constructor(
+        private readonly url: string = POLYMARKET_MARKET_WS_URL,
+        private readonly webSocket: typeof WebSocket | undefined = typeof WebSocket !== 'undefined' ? WebSocket : undefined
+    ) {}
+
+    /** Whether a WebSocket implementation is available. */
+    static isAvailable(): boolean {
+        return typeof WebSocket !== 'undefined';
+    }
+
+    subscribe(assetIds: string[], handlers: { onUpdate: (update: OrderBookUpdate) => void; onError: (error: Error) => void }): { close: () => void } {
+        if (!this.webSocket) {
+            throw new Error('WebSocket is not available in this environment.');
+        }
+        const socket = new this.webSocket(this.url);
+        let closed = false;
+        let ping: ReturnType<typeof setInterval> | null = null;
+
+        socket.onopen = () => {
+            socket.send(JSON.stringify({ assets_ids: assetIds, type: 'market' }));
+            ping = setInterval(() => socket.send('PING'), POLYMARKET_PING_INTERVAL_MS);
+        };
+        socket.onmessage = (ev: MessageEvent) => {
+            const text = String(ev.data);
+            if (text === 'PONG') return;
+            // A malformed frame is skipped rather than reported through onError, which would drop the connection.
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(text);
+            } catch (error) {
+                console.error('Ignoring malformed Polymarket market message:', error);
+                return;
+            }
+            for (const event of Array.isArray(parsed) ? parsed : [parsed]) {
+                let updates: OrderBookUpdate[];
+                try {
+                    updates = parsePolymarketEvent(event);
+                } catch (error) {
+                    console.error('Ignoring malformed Polymarket market event:', error);
+                    continue;
+                }
+                updates.forEach(handlers.onUpdate);
+            }
+        };
+        socket.onerror = () => {
+            if (!closed) handlers.onError(new Error('Polymarket market WebSocket error.'));
+        };
+        socket.onclose = () => {
+            if (ping) clearInterval(ping);
+            if (!closed) handlers.onError(new Error('Polymarket market WebSocket closed.'));
+        };
+
+        return {
+            close: () => {
+                closed = true;
+                if (ping) clearInterval(ping);
+                socket.close();
+            },
+        };
+    }
+}
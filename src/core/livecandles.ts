@@ -0,0 +1,292 @@
+// src/core/livecandles.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { assertInterval, bucketStart, filledCandle, generatePriceChart } from './candles';
+import { Candle, CandleEvent, LiveCandleHandlers, LiveCandleOptions, TradeFeed, TradeRecord } from './types';
+
+const DEFAULT_MAX_CANDLES = 500;
+const DEFAULT_CLOSE_DELAY_MS = 1000;
+
+/**
+ * Candles of one interval: the closed ones, oldest first, and the one still open.
+ */
+interface CandleSeries {
+    intervalMillis: number;
+    closed: Candle[];
+    current: Candle | null;
+    /** Sum of price * volume of the current candle, for its VWAP. */
+    notional: number;
+}
+
+function tradeKey(trade: TradeRecord): string {
+    return `${trade.timestamp}:${trade.price}:${trade.volumeBase}`;
+}
+
+/**
+ * Candles for several intervals, kept current from trade history plus a stream of trades.
+ *
+ * Each trade updates the open candle of every interval. A candle closes when a trade of a later
+ * interval arrives, or `closeDelayMs` after its interval ends, whichever comes first. Intervals
+ * without trades produce `filled` candles at the previous close, so there are no gaps once a
+ * price is known. Trades for an interval that has already closed are dropped.
+ */
+export class LiveCandles {
+    private series = new Map<number, CandleSeries>();
+    private updateListeners = new Set<(event: CandleEvent) => void>();
+    private closeListeners = new Set<(event: CandleEvent) => void>();
+    private readonly tradeStats: boolean;
+    private readonly maxCandles: number;
+    private readonly closeDelayMs: number;
+    private readonly feed: TradeFeed | null;
+    private subscription: { close: () => void } | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private running = false;
+
+    /**
+     * @param fetchHistory - Returns past trades to seed from (e.g. one series of `getPriceHistory`), or `null` to start empty.
+     * @param feed - Streaming source of trades, or `null` to only close candles on the clock and via `push`.
+     * @param intervals - Candle intervals in **milliseconds**.
+     * @param options - Trade statistics, history length and close delay.
+     * @param handlers - Update, close and error callbacks.
+     * @throws {PolynanceApiError} `INVALID_PARAMETER` if no interval is given or one is not positive.
+     */
+    constructor(
+        private readonly fetchHistory: (() => Promise<TradeRecord[]>) | null,
+        feed: TradeFeed | null,
+        intervals: number[],
+        options?: LiveCandleOptions,
+        private readonly handlers?: LiveCandleHandlers
+    ) {
+        if (!intervals || intervals.length === 0) {
+            throw new PolynanceApiError("At least one candle interval is required.", PolynanceErrorCode.INVALID_PARAMETER, { methodName: 'LiveCandles' });
+        }
+        intervals.forEach((interval) => assertInterval(interval, 'LiveCandles'));
+        this.feed = feed;
+        this.tradeStats = options?.tradeStats ?? false;
+        this.maxCandles = Math.max(1, Math.floor(options?.maxCandles ?? DEFAULT_MAX_CANDLES));
+        this.closeDelayMs = Math.max(0, options?.closeDelayMs ?? DEFAULT_CLOSE_DELAY_MS);
+        for (const intervalMillis of Array.from(new Set(intervals)).sort((a, b) => a - b)) {
+            this.series.set(intervalMillis, { intervalMillis, closed: [], current: null, notional: 0 });
+        }
+        if (handlers?.onCandleUpdate) this.updateListeners.add(handlers.onCandleUpdate);
+        if (handlers?.onCandleClose) this.closeListeners.add(handlers.onCandleClose);
+    }
+
+    /**
+     * Subscribes to the feed, seeds from history and starts closing candles on interval boundaries.
+     * Trades streamed while the history loads are applied afterwards, skipping those the history already contains.
+     * If the history cannot be loaded, the feed is closed again and the error is rethrown.
+     */
+    async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        let buffer: TradeRecord[] | null = [];
+        this.connectFeed((trade) => {
+            if (buffer) buffer.push(trade);
+            else this.push(trade);
+        });
+
+        let history: TradeRecord[];
+        try {
+            history = this.fetchHistory ? await this.fetchHistory() : [];
+        } catch (error) {
+            this.stop();
+            throw error;
+        }
+        if (!this.running) return;
+        this.seed(history);
+
+        const seen = new Map<string, number>();
+        history.forEach((trade) => seen.set(tradeKey(trade), (seen.get(tradeKey(trade)) ?? 0) + 1));
+        const pending = buffer;
+        buffer = null;
+        for (const trade of pending) {
+            const count = seen.get(tradeKey(trade)) ?? 0;
+            if (count > 0) {
+                seen.set(tradeKey(trade), count - 1);
+                continue;
+            }
+            this.push(trade);
+        }
+        this.scheduleTick();
+    }
+
+    /**
+     * Stops the feed and the timer. The candles stay readable.
+     */
+    stop() {
+        this.running = false;
+        this.subscription?.close();
+        this.subscription = null;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    /** Candle intervals in milliseconds, ascending. */
+    intervals(): number[] {
+        return Array.from(this.series.keys());
+    }
+
+    /**
+     * Returns copies of an interval's closed candles followed by the open one, oldest first.
+     */
+    candles(intervalMillis: number): Candle[] {
+        const series = this.series.get(intervalMillis);
+        if (!series) return [];
+        return [...series.closed, ...(series.current ? [series.current] : [])].map((c) => ({ ...c }));
+    }
+
+    /** A copy of an interval's open candle; `null` before the first price. */
+    current(intervalMillis: number): Candle | null {
+        const candle = this.series.get(intervalMillis)?.current;
+        return candle ? { ...candle } : null;
+    }
+
+    /**
+     * Subscribes to updates of open candles.
+     * @returns A function that removes the listener.
+     */
+    onCandleUpdate(listener: (event: CandleEvent) => void): () => void {
+        this.updateListeners.add(listener);
+        return () => this.updateListeners.delete(listener);
+    }
+
+    /**
+     * Subscribes to closed candles.
+     * @returns A function that removes the listener.
+     */
+    onCandleClose(listener: (event: CandleEvent) => void): () => void {
+        this.closeListeners.add(listener);
+        return () => this.closeListeners.delete(listener);
+    }
+
+    /**
+     * Replaces every interval's candles with ones built from past trades, without emitting events.
+     * The last candle stays open unless its interval has already ended.
+     */
+    seed(trades: TradeRecord[]) {
+        const now = Date.now();
+        this.series.forEach((series) => {
+            const candles = generatePriceChart(trades, series.intervalMillis, 0, Infinity, { fillGaps: true, tradeStats: this.tradeStats });
+            const last = candles.pop() ?? null;
+            series.closed = candles.slice(-this.maxCandles);
+            series.current = last;
+            series.notional = last ? (last.vwap ?? last.close) * last.volume : 0;
+            this.advance(series, now - this.closeDelayMs, false);
+        });
+    }
+
+    /**
+     * Applies one trade to every interval. Exposed so callers with their own stream can drive the candles directly.
+     */
+    push(trade: TradeRecord) {
+        if (typeof trade?.timestamp !== 'number' || typeof trade.price !== 'number' || typeof trade.volumeBase !== 'number') return;
+        const timeMillis = trade.timestamp * 1000;
+        this.series.forEach((series) => {
+            this.advance(series, timeMillis, true);
+            const start = bucketStart(timeMillis, series.intervalMillis);
+            const current = series.current;
+            if (current && start < current.time * 1000) return; // Its interval has already closed.
+
+            if (!current || current.filled) {
+                series.current = {
+                    time: Math.floor(start / 1000),
+                    open: trade.price,
+                    high: trade.price,
+                    low: trade.price,
+                    close: trade.price,
+                    volume: trade.volumeBase,
+                    ...(this.tradeStats ? { vwap: trade.price, trades: 1 } : {}),
+                };
+                series.notional = trade.price * trade.volumeBase;
+            } else {
+                current.high = Math.max(current.high, trade.price);
+                current.low = Math.min(current.low, trade.price);
+                current.close = trade.price;
+                current.volume += trade.volumeBase;
+                series.notional += trade.price * trade.volumeBase;
+                if (this.tradeStats) {
+                    current.trades = (current.trades ?? 0) + 1;
+                    current.vwap = current.volume > 0 ? series.notional / current.volume : current.close;
+                }
+            }
+            this.emit(this.updateListeners, series, series.current!);
+        });
+    }
+
+    /**
+     * Closes the open candle if `timeMillis` is past its interval, then opens a filled candle for
+     * the interval containing `timeMillis`. Skipped intervals are closed as filled candles.
+     */
+    private advance(series: CandleSeries, timeMillis: number, emit: boolean) {
+        const current = series.current;
+        if (!current) return;
+        const { intervalMillis } = series;
+        const target = bucketStart(timeMillis, intervalMillis);
+        let next = current.time * 1000 + intervalMillis;
+        if (target < next) return;
+
+        this.close(series, current, emit);
+        // Only the last `maxCandles` skipped intervals would be kept anyway.
+        next = Math.max(next, target - this.maxCandles * intervalMillis);
+        for (; next < target; next += intervalMillis) {
+            this.close(series, filledCandle(Math.floor(next / 1000), current.close, this.tradeStats), emit);
+        }
+        series.current = filledCandle(Math.floor(target / 1000), current.close, this.tradeStats);
+        series.notional = 0;
+        if (emit) this.emit(this.updateListeners, series, series.current);
+    }
+
+    private close(series: CandleSeries, candle: Candle, emit: boolean) {
+        series.closed.push(candle);
+        if (series.closed.length > this.maxCandles) series.closed.splice(0, series.closed.length - this.maxCandles);
+        if (emit) this.emit(this.closeListeners, series, candle);
+    }
+
+    /**
+     * Wakes up `closeDelayMs` after the next interval boundary to close candles that saw no newer trade.
+     */
+    private scheduleTick() {
+        if (!this.running) return;
+        const now = Date.now();
+        const next = Math.min(...this.intervals().map((interval) => bucketStart(now - this.closeDelayMs, interval) + interval));
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            const closeBefore = Date.now() - this.closeDelayMs;
+            this.series.forEach((series) => this.advance(series, closeBefore, true));
+            this.scheduleTick();
+        }, Math.max(0, next + this.closeDelayMs - now));
+    }
+
+    private connectFeed(onTrade: (trade: TradeRecord) => void) {
+        if (!this.feed) return;
+        try {
+            this.subscription = this.feed.subscribe({
+                onTrade,
+                onError: (error) => this.reportError(error, 'The trade feed failed.'),
+            });
+        } catch (error) {
+            this.reportError(error, 'Failed to subscribe to the trade feed.');
+        }
+    }
+
+    private emit(listeners: Set<(event: CandleEvent) => void>, series: CandleSeries, candle: Candle) {
+        for (const listener of Array.from(listeners)) {
+            try {
+                listener({ intervalMillis: series.intervalMillis, candle: { ...candle } });
+            } catch (error) {
+                console.error('Error in candle listener:', error);
+            }
+        }
+    }
+
+    private reportError(error: unknown, message: string) {
+        const apiError = error instanceof PolynanceApiError
+            ? error
+            : new PolynanceApiError(message, PolynanceErrorCode.NETWORK_ERROR, {
+                cause: error instanceof Error ? error : undefined,
+                methodName: 'LiveCandles',
+                context: { intervals: this.intervals() },
+            });
+        this.handlers?.onError?.(apiError);
+    }
+}
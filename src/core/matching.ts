@@ -0,0 +1,44 @@
+// src/core/matching.ts
+
+/** Words that carry no meaning for matching questions across providers. */
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'will', 'be', 'is', 'are', 'of', 'in', 'on', 'at', 'to', 'by', 'for', 'or', 'and',
+    'before', 'after', 'than', 'this', 'that', 'with', 'does', 'do', 'did', 'has', 'have', '?',
+]);
+
+/**
+ * Splits a question into lowercase content words, ignoring punctuation and stop words.
+ */
+export function questionTokens(question: string): Set<string> {
+    const words = question
+        .toLowerCase()
+        .replace(/[’']s\b/g, '')
+        .split(/[^\p{L}\p{N}.%$]+/u)
+        .map((w) => w.replace(/^[.]+|[.]+$/g, ''))
+        .filter((w) => w.length > 0 && !STOP_WORDS.has(w));
+    return new Set(words);
+}
+
+/**
+ * Jaccard similarity (0-1) of the content words of two questions.
+ */
+export function questionSimilarity(a: string, b: string): number {
+    const ta = questionTokens(a);
+    const tb = questionTokens(b);
+    if (ta.size === 0 || tb.size === 0) return 0;
+    let shared = 0;
+    ta.forEach((w) => {
+        if (tb.has(w)) shared += 1;
+    });
+    return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Whether two ISO dates are at most `toleranceMs` apart. Missing or unparsable dates are not held against a match.
+ */
+export function endDatesMatch(a: string | undefined, b: string | undefined, toleranceMs: number): boolean {
+    const ta = a ? Date.parse(a) : NaN;
+    const tb = b ? Date.parse(b) : NaN;
+    if (Number.isNaN(ta) || Number.isNaN(tb)) return true;
+    return Math.abs(ta - tb) <= toleranceMs;
+}
@@ -0,0 +1,105 @@
+// src/core/network.ts
+import { Chain, getContractConfig } from '@polymarket/clob-client';
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { NetworkContracts, NetworkName, NetworkProfile, NetworkProfileOptions } from './types';
+
+/** Multicall3 is deployed at the same address on Polygon and Amoy. */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Built-in network profiles. Contract addresses come from `@polymarket/clob-client`.
+ */
+export const NETWORK_PRESETS: Record<NetworkName, NetworkProfile> = {
+    polygon: {
+        name: 'polygon',
+        chainId: Chain.POLYGON,
+        clobUrl: 'https://clob.polymarket.com/',
+        clobWsUrl: 'wss://ws-subscriptions-clob.polymarket.com/ws/market',
+        contracts: getContractConfig(Chain.POLYGON),
+        rpcUrl: 'https://polygon-rpc.com',
+        multicallAddress: MULTICALL3_ADDRESS,
+    },
+    amoy: {
+        name: 'amoy',
+        chainId: Chain.AMOY,
+        clobUrl: 'https://clob-staging.polymarket.com/',
+        contracts: getContractConfig(Chain.AMOY),
+        rpcUrl: 'https://rpc-amoy.polygon.technology',
+        multicallAddress: MULTICALL3_ADDRESS,
+    },
+};
+
+const CONTRACT_KEYS: (keyof NetworkContracts)[] = ['exchange', 'negRiskAdapter', 'negRiskExchange', 'collateral', 'conditionalTokens'];
+/** Contracts that orders are signed for. */
+const SIGNING_CONTRACT_KEYS: (keyof NetworkContracts)[] = ['exchange', 'negRiskExchange'];
+
+/**
+ * Resolves client options to a complete network profile.
+ * @throws {PolynanceApiError} With `INVALID_PARAMETER` if the preset is unknown or a custom profile is incomplete.
+ */
+export function resolveNetwork(network: NetworkName | NetworkProfileOptions = 'polygon'): NetworkProfile {
+    const methodName = 'resolveNetwork';
+    if (typeof network === 'string') {
+        const preset = NETWORK_PRESETS[network];
+        if (!preset) {
+            throw new PolynanceApiError(`Unknown network '${network}'.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+        }
+        return { ...preset, contracts: { ...preset.contracts } };
+    }
+
+    const base = network.base
+        ? NETWORK_PRESETS[network.base]
+        : Object.values(NETWORK_PRESETS).find((p) => p.chainId === network.chainId);
+    if (network.base && !base) {
+        throw new PolynanceApiError(`Unknown base network '${network.base}'.`, PolynanceErrorCode.INVALID_PARAMETER, { methodName });
+    }
+    const { base: _base, contracts, ...fields } = network;
+    const profile = {
+        ...base,
+        // On another chain id, the base's RPC and WebSocket endpoints and Multicall3 no longer apply.
+        ...(base && network.chainId !== undefined && network.chainId !== base.chainId ? { clobWsUrl: undefined, rpcUrl: undefined, multicallAddress: undefined } : {}),
+        // Another RPC endpoint may be a chain without the preset's Multicall3 deployment.
+        ...(network.rpcUrl !== undefined && network.rpcUrl !== base?.rpcUrl ? { multicallAddress: undefined } : {}),
+        ...fields,
+        contracts: { ...base?.contracts, ...contracts },
+    } as Partial<NetworkProfile> & { contracts: Partial<NetworkContracts> };
+
+    const missing = [
+        ...(['chainId', 'clobUrl'] as const).filter((k) => profile[k] === undefined),
+        ...CONTRACT_KEYS.filter((k) => !profile.contracts[k]).map((k) => `contracts.${k}`),
+    ];
+    if (missing.length > 0) {
+        throw new PolynanceApiError(`Custom network profile is missing ${missing.join(', ')}.`, PolynanceErrorCode.INVALID_PARAMETER, {
+            methodName,
+            context: { missing },
+        });
+    }
+    const resolved = { ...profile, name: network.name ?? 'custom', readOnly: network.readOnly ?? false } as NetworkProfile;
+    if (!resolved.readOnly) assertSignable(resolved);
+    return resolved;
+}
+
+/**
+ * `@polymarket/clob-client` signs orders for its own exchange addresses of the chain id, so a
+ * profile that trades must use a supported chain and keep those addresses.
+ * @throws {PolynanceApiError} With `INVALID_PARAMETER` otherwise.
+ */
+function assertSignable(profile: NetworkProfile) {
+    const methodName = 'resolveNetwork';
+    const builtIn = Object.values(NETWORK_PRESETS).find((p) => p.chainId === profile.chainId);
+    if (!builtIn) {
+        throw new PolynanceApiError(
+            `Polymarket orders cannot be signed on chain ${profile.chainId}. Set 'readOnly: true' to use this network without trading.`,
+            PolynanceErrorCode.INVALID_PARAMETER,
+            { methodName, context: { chainId: profile.chainId } }
+        );
+    }
+    const overridden = SIGNING_CONTRACT_KEYS.filter((k) => profile.contracts[k].toLowerCase() !== builtIn.contracts[k].toLowerCase());
+    if (overridden.length > 0) {
+        throw new PolynanceApiError(
+            `Orders are signed for the built-in ${overridden.join(', ')} of chain ${profile.chainId}. Set 'readOnly: true' to use other addresses without trading.`,
+            PolynanceErrorCode.INVALID_PARAMETER,
+            { methodName, context: { chainId: profile.chainId, overridden } }
+        );
+    }
+}
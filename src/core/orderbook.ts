@@ -0,0 +1,114 @@
+// src/core/orderbook.ts
+import { OrderBookLevel, OrderBookSummary, OrderQuote } from './types';
+
+/**
+ * A level taken while walking the book.
+ */
+export interface BookFill {
+    price: number;
+    size: number;
+}
+
+/**
+ * Returns the levels an order on `side` trades against, best price first:
+ * asks ascending for a BUY, bids descending for a SELL.
+ */
+export function takerLevels(book: OrderBookSummary, side: "BUY" | "SELL"): OrderBookLevel[] {
+    const levels = (side === 'BUY' ? book.asks : book.bids)
+        .map((l) => ({ price: Number(l.price), size: Number(l.size) }))
+        .filter((l) => l.size > 0);
+    return levels.sort((a, b) => side === 'BUY' ? a.price - b.price : b.price - a.price);
+}
+
+/**
+ * Walks the book for up to `size` shares, stopping at the first level priced
+ * beyond `limitPrice` (if given).
+ * @returns The levels taken, in order.
+ */
+export function walkBook(book: OrderBookSummary, side: "BUY" | "SELL", size: number, limitPrice?: number): BookFill[] {
+    const fills: BookFill[] = [];
+    let remaining = size;
+    for (const level of takerLevels(book, side)) {
+        if (remaining <= 0) break;
+        if (limitPrice !== undefined && (side === 'BUY' ? level.price > limitPrice : level.price < limitPrice)) break;
+        const take = Math.min(remaining, level.size);
+        fills.push({ price: level.price, size: take });
+        remaining -= take;
+    }
+    return fills;
+}
+
+/**
+ * Walks the book until `notional` USDC is spent (BUY) or received (SELL), stopping at the
+ * first level priced beyond `limitPrice` (if given). The last level may be taken partially.
+ * @returns The levels taken, in order.
+ */
+export function walkBookForNotional(book: OrderBookSummary, side: "BUY" | "SELL", notional: number, limitPrice?: number): BookFill[] {
+    const fills: BookFill[] = [];
+    let remaining = notional;
+    for (const level of takerLevels(book, side)) {
+        if (remaining <= 0 || level.price <= 0) break;
+        if (limitPrice !== undefined && (side === 'BUY' ? level.price > limitPrice : level.price < limitPrice)) break;
+        const take = Math.min(level.size, remaining / level.price);
+        fills.push({ price: level.price, size: take });
+        remaining -= take * level.price;
+    }
+    return fills;
+}
+
+/**
+ * Best bid, best ask and their mid.
+ */
+export function bookTop(book: OrderBookSummary): { bestBid: number | null; bestAsk: number | null; mid: number | null } {
+    const bestBid = takerLevels(book, 'SELL')[0]?.price ?? null;
+    const bestAsk = takerLevels(book, 'BUY')[0]?.price ?? null;
+    return { bestBid, bestAsk, mid: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null };
+}
+
+/**
+ * Polymarket-style fee for a fill: `feeRate * min(price, 1 - price) * size`, in USDC.
+ */
+export function computeFee(fill: BookFill, feeRateBps: number): number {
+    return (feeRateBps / 10000) * Math.min(fill.price, 1 - fill.price) * fill.size;
+}
+
+/**
+ * Quotes an order against a book snapshot.
+ * @param book - The position token's order book.
+ * @param side - Order side.
+ * @param amount - Either a number of shares or a USDC amount to spend (BUY) / receive (SELL).
+ * @param options - Limit price and fee rate.
+ */
+export function quoteOrderBook(
+    book: OrderBookSummary,
+    side: "BUY" | "SELL",
+    amount: { size: number } | { usdc: number },
+    options?: { limitPrice?: number; feeRateBps?: number }
+): Omit<OrderQuote, 'provider' | 'exchangeId' | 'tokenId'> {
+    const feeRateBps = options?.feeRateBps ?? 0;
+    const fills = 'size' in amount
+        ? walkBook(book, side, amount.size, options?.limitPrice)
+        : walkBookForNotional(book, side, amount.usdc, options?.limitPrice);
+    const filledSize = fills.reduce((sum, f) => sum + f.size, 0);
+    const notional = fills.reduce((sum, f) => sum + f.price * f.size, 0);
+    const averagePrice = filledSize > 0 ? notional / filledSize : null;
+    const { mid } = bookTop(book);
+    const priceImpact = averagePrice !== null && mid !== null && mid > 0
+        ? (side === 'BUY' ? averagePrice - mid : mid - averagePrice) / mid
+        : null;
+    return {
+        side,
+        filledSize,
+        notional,
+        unfilledSize: 'size' in amount ? Math.max(0, amount.size - filledSize) : 0,
+        unfilledUsdc: 'usdc' in amount ? Math.max(0, amount.usdc - notional) : 0,
+        averagePrice,
+        bestPrice: fills[0]?.price ?? null,
+        worstPrice: fills[fills.length - 1]?.price ?? null,
+        midPrice: mid,
+        priceImpact,
+        feeRateBps,
+        fee: fills.reduce((sum, f) => sum + computeFee(f, feeRateBps), 0),
+        fills,
+    };
+}
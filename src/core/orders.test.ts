@@ -0,0 +1,65 @@
+// src/core/orders.test.ts
+import { describe, expect, it } from 'vitest';
+import { OrderTracker } from './orders';
+import { PolynanceErrorCode } from './panic';
+import { OrderStatus } from './types';
+
+/** Whether the tracker's poll timer currently keeps the process alive. */
+function pollKeepsAlive(tracker: OrderTracker): boolean | null {
+    const timer = (tracker as unknown as { pollTimer: NodeJS.Timeout | null }).pollTimer;
+    return timer ? timer.hasRef() : null;
+}
+
+describe('OrderTracker', () => {
+    it('keeps polling a waited-for order until it is matched', async () => {
+        const statuses: OrderStatus[] = ['live', 'live', 'matched'];
+        let fetches = 0;
+        const tracker = new OrderTracker(async () => ({ status: statuses[Math.min(fetches++, statuses.length - 1)], filledSize: 0 }), { pollIntervalMs: 10 });
+        tracker.track({ orderId: 'o-1', provider: 'polymarket', status: 'live', filledSize: 0 });
+        expect(pollKeepsAlive(tracker)).toBe(false);
+
+        const filled = tracker.waitForFill('o-1');
+        expect(pollKeepsAlive(tracker)).toBe(true);
+        await expect(filled).resolves.toMatchObject({ orderId: 'o-1', status: 'matched' });
+        expect(fetches).toBe(3);
+        tracker.stop();
+    });
+
+    it('keeps polling until the timeout fires, then lets the process exit', async () => {
+        let fetches = 0;
+        const tracker = new OrderTracker(async () => { fetches++; return { status: 'live' }; }, { pollIntervalMs: 10 });
+        tracker.track({ orderId: 'o-2', provider: 'polymarket', status: 'live', filledSize: 0 });
+
+        const filled = tracker.waitForFill('o-2', { timeout: 80 });
+        expect(pollKeepsAlive(tracker)).toBe(true);
+        await expect(filled).rejects.toMatchObject({ code: PolynanceErrorCode.TIMEOUT_ERROR });
+        expect(fetches).toBeGreaterThan(2);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(pollKeepsAlive(tracker)).toBe(false);
+        tracker.stop();
+    });
+
+    it('stays alive while any of several waiters is pending', async () => {
+        const tracker = new OrderTracker(async (order) => (order.orderId === 'a' ? { status: 'matched' } : { status: 'live' }), { pollIntervalMs: 10 });
+        const first = tracker.waitForFill('a');
+        const second = tracker.waitForFill('b', { timeout: 60 });
+        await expect(first).resolves.toMatchObject({ status: 'matched' });
+        expect(pollKeepsAlive(tracker)).toBe(true);
+        await expect(second).rejects.toMatchObject({ code: PolynanceErrorCode.TIMEOUT_ERROR });
+        tracker.stop();
+    });
+
+    it('persists only when an order changes', async () => {
+        let saves = 0;
+        const tracker = new OrderTracker(async () => ({ status: 'live', filledSize: 0 }), {
+            pollIntervalMs: 0,
+            store: { load: async () => [], save: async () => { saves++; } },
+        });
+        tracker.track({ orderId: 'o-3', provider: 'polymarket', status: 'live', filledSize: 0 });
+        await tracker.refresh();
+        await tracker.refresh();
+        tracker.update('o-3', { filledSize: 1 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(saves).toBe(2);
+    });
+});
@@ -0,0 +1,403 @@
+// src/core/orders.ts
+import { OpenOrder } from '@polymarket/clob-client';
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import {
+    CancelOrdersResult,
+    OrderResult,
+    OrderStatus,
+    OrderTrackerStore,
+    OrderTrackingOptions,
+    OrderTransition,
+    TrackedOrder,
+    WaitForFillOptions
+} from './types';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_RETAIN_FINAL_MS = 10 * 60 * 1000;
+
+const FINAL_STATUSES: OrderStatus[] = ['matched', 'cancelled', 'expired', 'failed'];
+
+/**
+ * Sets whether a pending timer keeps Node.js running; a no-op where timers have no `ref`/`unref`.
+ */
+function keepAlive(timer: ReturnType<typeof setTimeout>, alive: boolean) {
+    const handle = timer as { ref?: () => void; unref?: () => void };
+    if (alive) handle.ref?.();
+    else handle.unref?.();
+}
+
+/**
+ * Whether an order in this state can still change.
+ */
+export function isFinalStatus(status: OrderStatus): boolean {
+    return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Converts a Polymarket CLOB order into the tracker's representation.
+ */
+export function fromPolymarketOrder(op: OpenOrder): Omit<TrackedOrder, 'createdAt' | 'updatedAt'> {
+    const size = Number(op.original_size);
+    const filledSize = Number(op.size_matched) || 0;
+    const expiration = Number(op.expiration);
+    let status: OrderStatus;
+    switch (op.status.toLowerCase()) {
+        case 'matched':
+            status = 'matched';
+            break;
+        case 'canceled':
+        case 'cancelled':
+        case 'unmatched':
+            status = 'cancelled';
+            break;
+        default:
+            // LIVE / DELAYED: resting or waiting to be matched.
+            if (expiration > 0 && expiration * 1000 <= Date.now()) status = 'expired';
+            else status = filledSize > 0 ? 'partially_filled' : 'live';
+            break;
+    }
+    return {
+        orderId: op.id,
+        provider: 'polymarket',
+        status,
+        side: op.side.toUpperCase() === 'SELL' ? 'SELL' : 'BUY',
+        price: Number(op.price),
+        size,
+        filledSize,
+        tokenId: op.asset_id,
+    };
+}
+
+/**
+ * Converts an adapter `OrderResult` into the tracker's representation.
+ */
+export function fromOrderResult(result: OrderResult & { orderId: string }): Omit<TrackedOrder, 'createdAt' | 'updatedAt'> {
+    return {
+        orderId: result.orderId,
+        provider: result.provider,
+        status: result.status,
+        side: result.side,
+        price: result.price,
+        size: result.size,
+        filledSize: result.filledSize ?? (result.status === 'matched' ? result.size : 0),
+    };
+}
+
+/**
+ * Converts a Polymarket CLOB order into an `OrderResult`.
+ */
+export function polymarketOrderResult(op: OpenOrder): OrderResult & { orderId: string } {
+    const { orderId, status, side, price, size, filledSize, tokenId } = fromPolymarketOrder(op);
+    return { provider: 'polymarket', orderId, status, side: side!, price: price!, size: size!, filledSize, tokenId, raw: op };
+}
+
+/**
+ * Converts a Polymarket CLOB cancellation response (`{ canceled, not_canceled }`).
+ */
+export function fromPolymarketCancel(res: any): CancelOrdersResult {
+    const notCancelled: Record<string, string> = {};
+    for (const [id, reason] of Object.entries(res?.not_canceled ?? {})) {
+        notCancelled[id] = String(reason);
+    }
+    return {
+        cancelled: Array.isArray(res?.canceled) ? res.canceled.map(String) : [],
+        notCancelled,
+    };
+}
+
+/**
+ * Combines the results of several cancellation requests.
+ */
+export function mergeCancelResults(results: CancelOrdersResult[]): CancelOrdersResult {
+    return {
+        cancelled: results.flatMap((r) => r.cancelled),
+        notCancelled: Object.assign({}, ...results.map((r) => r.notCancelled)),
+    };
+}
+
+/**
+ * Looks up the current state of an order; returns `null` when the provider cannot report it.
+ */
+export type OrderStatusFetcher = (order: TrackedOrder) => Promise<Partial<Pick<TrackedOrder, 'status' | 'filledSize'>> | null>;
+
+/**
+ * Follows submitted orders until they are matched, cancelled, expired or failed.
+ *
+ * Non-final orders are refreshed on a fixed interval through the status fetcher; updates
+ * from other sources (e.g. a user-channel stream) can be pushed in with `update`.
+ * Every change of status or fill size is reported to `onTransition` listeners. Polling only
+ * keeps a Node.js process alive while a `waitForFill` call is waiting.
+ */
+export class OrderTracker {
+    private orders = new Map<string, TrackedOrder>();
+    private listeners = new Set<(transition: OrderTransition) => void>();
+    private readonly pollIntervalMs: number;
+    private readonly retainFinalMs: number;
+    private readonly store?: OrderTrackerStore;
+    private pollTimer: ReturnType<typeof setTimeout> | null = null;
+    private polling = false;
+    /** Pending `waitForFill` calls; while there are any, the poll timer keeps the process alive. */
+    private waiters = 0;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private readonly fetchStatus: OrderStatusFetcher, options?: OrderTrackingOptions) {
+        this.pollIntervalMs = Math.max(0, options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+        this.retainFinalMs = Math.max(0, options?.retainFinalMs ?? DEFAULT_RETAIN_FINAL_MS);
+        this.store = options?.store;
+    }
+
+    /**
+     * Starts tracking an order, or updates it if it is already tracked.
+     * @returns The tracked order.
+     */
+    track(order: Omit<TrackedOrder, 'createdAt' | 'updatedAt'>): TrackedOrder {
+        const existing = this.orders.get(order.orderId);
+        if (existing) {
+            return this.update(order.orderId, order) ?? existing;
+        }
+        const now = Date.now();
+        const tracked: TrackedOrder = { ...order, createdAt: now, updatedAt: now };
+        this.orders.set(tracked.orderId, tracked);
+        this.emit({ order: { ...tracked }, previousStatus: null });
+        this.persist();
+        this.schedulePoll();
+        return { ...tracked };
+    }
+
+    /**
+     * Applies a state change to a tracked order and notifies listeners if the status or fill size changed.
+     * @returns The updated order, or `undefined` if it is not tracked.
+     */
+    update(orderId: string, patch: Partial<Omit<TrackedOrder, 'orderId' | 'createdAt'>>): TrackedOrder | undefined {
+        const order = this.orders.get(orderId);
+        if (!order) return undefined;
+        const previousStatus = order.status;
+        const previousFilled = order.filledSize;
+        const changed = (Object.keys(patch) as (keyof typeof patch)[]).some((key) => order[key] !== patch[key]);
+        Object.assign(order, patch, { updatedAt: Date.now() });
+        if (order.status !== previousStatus || order.filledSize !== previousFilled) {
+            this.emit({ order: { ...order }, previousStatus });
+        }
+        // A refresh that found nothing new only moves `updatedAt`; not worth a write.
+        if (changed) this.persist();
+        this.schedulePoll();
+        return { ...order };
+    }
+
+    /**
+     * Stops tracking an order.
+     */
+    untrack(orderId: string) {
+        if (this.orders.delete(orderId)) this.persist();
+    }
+
+    /**
+     * Returns a tracked order by id.
+     */
+    get(orderId: string): TrackedOrder | undefined {
+        const order = this.orders.get(orderId);
+        return order ? { ...order } : undefined;
+    }
+
+    /**
+     * Lists tracked orders, optionally only those in the given states.
+     */
+    list(statuses?: OrderStatus[]): TrackedOrder[] {
+        return Array.from(this.orders.values())
+            .filter((o) => !statuses || statuses.includes(o.status))
+            .map((o) => ({ ...o }));
+    }
+
+    /**
+     * Lists orders that have not reached a final state.
+     */
+    pending(): TrackedOrder[] {
+        return this.list().filter((o) => !isFinalStatus(o.status));
+    }
+
+    /**
+     * Subscribes to order transitions.
+     * @returns A function that removes the listener.
+     */
+    onTransition(listener: (transition: OrderTransition) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Refreshes non-final orders immediately (or just `orderId`), regardless of the poll interval.
+     */
+    async refresh(orderId?: string): Promise<void> {
+        const targets = orderId
+            ? [this.orders.get(orderId)].filter((o): o is TrackedOrder => !!o)
+            : Array.from(this.orders.values()).filter((o) => !isFinalStatus(o.status));
+        await Promise.all(targets.map(async (order) => {
+            try {
+                const next = await this.fetchStatus({ ...order });
+                if (next) this.update(order.orderId, { ...next, lastError: undefined });
+            } catch (error) {
+                this.update(order.orderId, { lastError: error instanceof Error ? error.message : String(error) });
+            }
+        }));
+        this.prune();
+    }
+
+    /**
+     * Waits until an order is fully matched.
+     * Orders that are not tracked yet are added (as `live`) and followed from now on.
+     * @param orderId - The order to wait for.
+     * @param options - Timeout and the provider of an untracked order.
+     * @returns The matched order.
+     * @throws {PolynanceApiError} `ORDER_NOT_FILLED` if the order is cancelled, expires or fails; `TIMEOUT_ERROR` on timeout.
+     */
+    waitForFill(orderId: string, options?: WaitForFillOptions): Promise<TrackedOrder> {
+        const methodName = 'waitForFill';
+        if (!this.orders.has(orderId)) {
+            this.track({ orderId, provider: options?.provider ?? 'polymarket', status: 'live', filledSize: 0 });
+            this.refresh(orderId).catch(() => undefined);
+        }
+
+        return new Promise<TrackedOrder>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            let unsubscribe: () => void = () => undefined;
+            const settle = (order: TrackedOrder): boolean => {
+                if (!isFinalStatus(order.status)) return false;
+                if (timer) clearTimeout(timer);
+                unsubscribe();
+                if (order.status === 'matched') {
+                    resolve(order);
+                } else {
+                    reject(new PolynanceApiError(`Order ${orderId} ended as '${order.status}' without being filled.`, PolynanceErrorCode.ORDER_NOT_FILLED, {
+                        methodName,
+                        context: { orderId, status: order.status, filledSize: order.filledSize, size: order.size },
+                    }));
+                }
+                return true;
+            };
+
+            const current = this.get(orderId);
+            if (current && settle(current)) return;
+
+            const stopListening = this.onTransition(({ order }) => {
+                if (order.orderId === orderId) settle(order);
+            });
+            this.setWaiters(this.waiters + 1);
+            unsubscribe = () => {
+                stopListening();
+                this.setWaiters(this.waiters - 1);
+                unsubscribe = () => undefined;
+            };
+            if (options?.timeout !== undefined) {
+                timer = setTimeout(() => {
+                    unsubscribe();
+                    reject(new PolynanceApiError(`Timed out after ${options.timeout}ms waiting for order ${orderId} to fill.`, PolynanceErrorCode.TIMEOUT_ERROR, {
+                        methodName,
+                        context: { orderId, status: this.orders.get(orderId)?.status },
+                    }));
+                }, options.timeout);
+            }
+        });
+    }
+
+    /**
+     * Loads orders from the configured store and resumes polling the ones that are not final.
+     * @returns The number of orders restored.
+     */
+    async restore(): Promise<number> {
+        if (!this.store) return 0;
+        const orders = await this.store.load();
+        for (const order of orders) {
+            if (!this.orders.has(order.orderId)) this.orders.set(order.orderId, { ...order });
+        }
+        this.prune();
+        this.schedulePoll();
+        return orders.length;
+    }
+
+    /**
+     * Stops polling. Tracking resumes on the next `track`, `update` or `refresh`.
+     */
+    stop() {
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = null;
+    }
+
+    private emit(transition: OrderTransition) {
+        for (const listener of Array.from(this.listeners)) {
+            try {
+                listener(transition);
+            } catch (error) {
+                console.error('Error in order transition listener:', error);
+            }
+        }
+    }
+
+    private schedulePoll() {
+        if (this.pollTimer || this.polling || this.pollIntervalMs === 0) return;
+        if (this.pending().length === 0) return;
+        this.pollTimer = setTimeout(async () => {
+            this.pollTimer = null;
+            this.polling = true;
+            try {
+                await this.refresh();
+            } finally {
+                this.polling = false;
+                this.schedulePoll();
+            }
+        }, this.pollIntervalMs);
+        keepAlive(this.pollTimer, this.waiters > 0);
+    }
+
+    private setWaiters(count: number) {
+        this.waiters = count;
+        if (this.pollTimer) keepAlive(this.pollTimer, count > 0);
+    }
+
+    private prune() {
+        const cutoff = Date.now() - this.retainFinalMs;
+        let removed = false;
+        for (const [id, order] of Array.from(this.orders.entries())) {
+            if (isFinalStatus(order.status) && order.updatedAt < cutoff) {
+                this.orders.delete(id);
+                removed = true;
+            }
+        }
+        if (removed) this.persist();
+    }
+
+    private persist() {
+        const store = this.store;
+        if (!store) return;
+        // Serialize writes so an older snapshot never overwrites a newer one.
+        this.saving = this.saving
+            .then(() => store.save(this.list()))
+            .catch((error) => console.warn('[orders] Failed to persist tracked orders:', error instanceof Error ? error.message : error));
+    }
+}
+
+/**
+ * `OrderTrackerStore` that keeps tracked orders in a JSON file. Requires Node.js.
+ */
+export class FileOrderTrackerStore implements OrderTrackerStore {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<TrackedOrder[]> {
+        const fs = await import('fs/promises');
+        try {
+            const content = await fs.readFile(this.filePath, 'utf8');
+            const parsed = JSON.parse(content);
+            return Array.isArray(parsed) ? parsed as TrackedOrder[] : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    async save(orders: TrackedOrder[]): Promise<void> {
+        const fs = await import('fs/promises');
+        // Write then rename so a crash never leaves a truncated file behind.
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(orders, null, 2), 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
@@ -0,0 +1,126 @@
+// src/core/pagination.ts
+import { PolynanceApiError, PolynanceErrorCode } from './panic';
+import { CollectOptions, PageIterationOptions } from './types';
+
+/**
+ * Throws an `ABORTED` error if the signal has fired.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, methodName: string) {
+    if (signal?.aborted) {
+        throw new PolynanceApiError('Operation was aborted.', PolynanceErrorCode.ABORTED, { methodName });
+    }
+}
+
+/**
+ * Resolves with `promise`, or rejects with an `ABORTED` error as soon as `signal` fires.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, methodName: string): Promise<T> {
+    if (!signal) return promise;
+    throwIfAborted(signal, methodName);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new PolynanceApiError('Operation was aborted.', PolynanceErrorCode.ABORTED, { methodName }));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Walks a page-numbered endpoint and yields its items in order, stopping at the first empty page.
+ *
+ * @param fetchPage - Loads one page by its 1-based number.
+ * @param options - Start page, prefetch window, page cap and abort signal.
+ * @param key - When given, items whose key was already yielded are skipped.
+ * @param methodName - Name used in `ABORTED` errors.
+ */
+export async function* paginate<T>(
+    fetchPage: (page: number) => Promise<T[]>,
+    options: PageIterationOptions = {},
+    key?: (item: T) => string,
+    methodName: string = 'paginate'
+): AsyncGenerator<T, void, undefined> {
+    const { signal } = options;
+    const startPage = options.startPage ?? 1;
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+    const lastPage = options.maxPages !== undefined ? startPage + options.maxPages - 1 : Infinity;
+    const seen = key ? new Set<string>() : null;
+
+    const queue: Promise<T[]>[] = [];
+    let nextPage = startPage;
+    const fill = () => {
+        while (queue.length < concurrency && nextPage <= lastPage) {
+            const pending = fetchPage(nextPage++);
+            // Prefetched pages may never be awaited if the iteration ends early.
+            pending.catch(() => undefined);
+            queue.push(pending);
+        }
+    };
+
+    while (true) {
+        throwIfAborted(signal, methodName);
+        fill();
+        const pending = queue.shift();
+        if (!pending) return;
+
+        const items = await abortable(pending, signal, methodName);
+        if (items.length === 0) return;
+
+        for (const item of items) {
+            if (seen && key) {
+                const k = key(item);
+                if (seen.has(k)) continue;
+                seen.add(k);
+            }
+            yield item;
+            throwIfAborted(signal, methodName);
+        }
+    }
+}
+
+/**
+ * Walks a cursor-paginated endpoint and yields its items in order, stopping when no further cursor is returned.
+ *
+ * @param fetchPage - Loads the page at `cursor` (`undefined` for the first page).
+ * @param options - Starting cursor, page cap and abort signal.
+ * @param methodName - Name used in `ABORTED` errors.
+ */
+export async function* paginateByCursor<T>(
+    fetchPage: (cursor: string | undefined) => Promise<{ items: T[]; nextCursor?: string | null }>,
+    options: { cursor?: string; maxPages?: number; signal?: AbortSignal } = {},
+    methodName: string = 'paginateByCursor'
+): AsyncGenerator<T, void, undefined> {
+    const { signal } = options;
+    const maxPages = options.maxPages ?? Infinity;
+    let cursor = options.cursor;
+    for (let pages = 0; pages < maxPages; pages++) {
+        throwIfAborted(signal, methodName);
+        const { items, nextCursor } = await abortable(fetchPage(cursor), signal, methodName);
+        for (const item of items) {
+            yield item;
+            throwIfAborted(signal, methodName);
+        }
+        // A repeated cursor would loop forever.
+        if (!nextCursor || nextCursor === cursor) return;
+        cursor = nextCursor;
+    }
+}
+
+/**
+ * Drains an async iterable into an array.
+ * @param iterable - e.g. the result of `iterateActiveMarkets` or `iterateSlugs`.
+ * @param options - Item cap and abort signal.
+ * @returns The collected items, at most `maxItems` of them.
+ */
+export async function collectAll<T>(iterable: AsyncIterable<T>, options: CollectOptions = {}): Promise<T[]> {
+    const methodName = 'collectAll';
+    const maxItems = options.maxItems ?? Infinity;
+    const items: T[] = [];
+    if (maxItems <= 0) return items;
+
+    throwIfAborted(options.signal, methodName);
+    for await (const item of iterable) {
+        items.push(item);
+        if (items.length >= maxItems) break;
+        throwIfAborted(options.signal, methodName);
+    }
+    return items;
+}
@@ -13,6 +13,7 @@ export enum PolynanceErrorCode {
     SSE_CONNECTION_FAILED = 'ERR_SSE_CONNECT', // SSE接続の確立失敗
     SSE_MESSAGE_ERROR = 'ERR_SSE_MESSAGE',  // SSEメッセージの受信または解析中のエラー
     SSE_CLOSED = 'ERR_SSE_CLOSED',          // SSE接続が予期せずクローズされた
+    ABORTED = 'ERR_ABORTED',                // 呼び出し側のAbortSignalによって処理が中断された
 
     // --- 入力・バリデーションエラー ---
     INVALID_PARAMETER = 'ERR_INVALID_PARAM', // 必須パラメータの欠落や不正な値
@@ -25,6 +26,13 @@ export enum PolynanceErrorCode {
     FORBIDDEN = 'ERR_FORBIDDEN',        // 403 Forbidden
     RATE_LIMIT_EXCEEDED = 'ERR_RATE_LIMIT', // 429 Rate limit exceeded
 
+    // --- 取引エラー ---
+    ORDER_NOT_FILLED = 'ERR_ORDER_NOT_FILLED', // 注文が約定せずにキャンセル・失効・失敗した
+    ORDER_REJECTED = 'ERR_ORDER_REJECTED',     // 署名前に注文を拒否した（許容スリッページ超過、板の流動性不足など）
+    INSUFFICIENT_BALANCE = 'ERR_INSUFFICIENT_BALANCE',     // トランザクションに必要なUSDCまたはポジショントークンの残高不足
+    INSUFFICIENT_ALLOWANCE = 'ERR_INSUFFICIENT_ALLOWANCE', // コントラクトへのapprove（allowance / setApprovalForAll）が未設定または不足
+    TRANSACTION_FAILED = 'ERR_TX_FAILED',                  // オンチェーントランザクションがrevertした
+
     // --- SDK内部エラー ---
     INTERNAL_SDK_ERROR = 'ERR_SDK_INTERNAL', // SDK内部の予期せぬロジックエラー
     ENVIRONMENT_ERROR = 'ERR_ENVIRONMENT',   // EventSourceが存在しないなど、実行環境の問題
@@ -0,0 +1,237 @@
+// src/core/paper.ts
+import { OpenOrder } from '@polymarket/clob-client';
+import { walkBook } from './orderbook';
+import {
+    OrderBookSummary,
+    OrderResult,
+    OrderTypeName,
+    PaperAccountSnapshot,
+    PaperOrder,
+    PaperOrderState,
+    PaperTradingOptions
+} from './types';
+
+const DEFAULT_INITIAL_USDC = 1000;
+
+/** Tolerance for floating-point share and USDC amounts. */
+const EPSILON = 1e-9;
+
+/**
+ * Whether `order` was built in paper-trading mode.
+ */
+export function isPaperOrder(order: unknown): order is PaperOrder {
+    return typeof order === 'object' && order !== null && (order as PaperOrder).paper === true;
+}
+
+/**
+ * Renders a paper order in the shape the Polymarket CLOB returns from `getOrder`.
+ */
+export function toPaperOpenOrder(state: PaperOrderState): OpenOrder {
+    const status = state.status === 'matched' ? 'MATCHED' : state.status === 'live' || state.status === 'partially_filled' ? 'LIVE' : 'CANCELED';
+    return {
+        id: state.orderId,
+        status,
+        owner: 'paper',
+        maker_address: 'paper',
+        market: state.exchangeId,
+        asset_id: state.tokenId,
+        side: state.side,
+        original_size: String(state.size),
+        size_matched: String(state.filledSize),
+        price: String(state.price),
+        associate_trades: [],
+        outcome: state.outcome,
+        created_at: Math.floor(state.createdAt / 1000),
+        expiration: String(state.expiration),
+        order_type: state.orderType,
+    };
+}
+
+/**
+ * Renders a paper order as an `OrderResult`, the shape adapter-based providers return.
+ */
+export function toPaperOrderResult(state: PaperOrderState): OrderResult {
+    return {
+        provider: state.provider,
+        orderId: state.orderId,
+        status: state.status,
+        side: state.side,
+        price: state.price,
+        size: state.size,
+        filledSize: state.filledSize,
+        tokenId: state.tokenId,
+        raw: { ...state },
+    };
+}
+
+/**
+ * A virtual account that fills orders against order book snapshots.
+ *
+ * Marketable parts of an order are taken level by level at the book's prices; the rest
+ * rests (GTC/GTD) or is cancelled (FAK), and FOK orders fill completely or not at all.
+ * Resting orders are re-matched against each new snapshot passed to `match`. Liquidity
+ * is not consumed between snapshots, so several orders can fill against the same level.
+ */
+export class PaperAccount {
+    private usdc: number;
+    private positions = new Map<string, number>();
+    private orders = new Map<string, PaperOrderState>();
+    private fills: PaperAccountSnapshot['fills'] = [];
+    private sequence = 0;
+
+    constructor(options?: PaperTradingOptions) {
+        this.usdc = options?.initialUsdc ?? DEFAULT_INITIAL_USDC;
+        for (const [tokenId, shares] of Object.entries(options?.positions ?? {})) {
+            this.positions.set(tokenId, shares);
+        }
+    }
+
+    /** Virtual USDC balance. */
+    usdcBalance(): number {
+        return this.usdc;
+    }
+
+    /** Virtual balance of a position token, in shares. */
+    positionBalance(tokenId: string): number {
+        return this.positions.get(tokenId) ?? 0;
+    }
+
+    /** Whether the order id belongs to this account. */
+    has(orderId: string): boolean {
+        return this.orders.has(orderId);
+    }
+
+    get(orderId: string): PaperOrderState | undefined {
+        const order = this.orders.get(orderId);
+        return order ? { ...order } : undefined;
+    }
+
+    /** Orders that are still resting. */
+    openOrders(): PaperOrderState[] {
+        return Array.from(this.orders.values())
+            .filter((o) => o.status === 'live' || o.status === 'partially_filled')
+            .map((o) => ({ ...o }));
+    }
+
+    /**
+     * Places an order and fills what the book allows.
+     * @throws {Error} If the account cannot cover the order.
+     */
+    place(order: PaperOrder, orderType: OrderTypeName, book: OrderBookSummary | undefined): PaperOrderState {
+        if (!(order.size > 0) || !(order.price > 0 && order.price < 1)) {
+            throw new Error(`Invalid paper order: size ${order.size} at price ${order.price}.`);
+        }
+        if (order.side === 'BUY' && order.price * order.size > this.availableUsdc() + EPSILON) {
+            throw new Error(`Insufficient virtual USDC: ${order.price * order.size} required, ${this.availableUsdc()} available.`);
+        }
+        if (order.side === 'SELL' && order.size > this.availableShares(order.tokenId) + EPSILON) {
+            throw new Error(`Insufficient virtual balance of ${order.tokenId}: ${order.size} required, ${this.availableShares(order.tokenId)} available.`);
+        }
+
+        const state: PaperOrderState = {
+            orderId: `paper-${Date.now().toString(36)}-${(++this.sequence).toString(36)}`,
+            provider: order.provider,
+            exchangeId: order.exchangeId,
+            tokenId: order.tokenId,
+            outcome: order.outcome,
+            side: order.side,
+            price: order.price,
+            size: order.size,
+            filledSize: 0,
+            averagePrice: 0,
+            status: 'live',
+            orderType,
+            expiration: orderType === 'GTD' ? order.expiration : 0,
+            createdAt: Date.now(),
+        };
+        this.orders.set(state.orderId, state);
+
+        const fills = book ? walkBook(book, state.side, state.size, state.price) : [];
+        const fillable = fills.reduce((sum, f) => sum + f.size, 0);
+        if (orderType === 'FOK' && fillable < state.size - EPSILON) {
+            state.status = 'cancelled';
+            return { ...state };
+        }
+        this.applyFills(state, fills);
+        if (state.status !== 'matched' && (orderType === 'FOK' || orderType === 'FAK')) {
+            state.status = 'cancelled';
+        }
+        return { ...state };
+    }
+
+    /**
+     * Re-matches a resting order against a newer book snapshot and expires it if its time has passed.
+     */
+    match(orderId: string, book: OrderBookSummary | undefined): PaperOrderState | undefined {
+        const state = this.orders.get(orderId);
+        if (!state) return undefined;
+        if (state.status !== 'live' && state.status !== 'partially_filled') return { ...state };
+        if (state.expiration > 0 && state.expiration * 1000 <= Date.now()) {
+            state.status = 'expired';
+            return { ...state };
+        }
+        if (book) {
+            this.applyFills(state, walkBook(book, state.side, state.size - state.filledSize, state.price));
+        }
+        return { ...state };
+    }
+
+    /**
+     * Cancels a resting order.
+     * @returns `false` if the order is unknown or no longer resting.
+     */
+    cancel(orderId: string): boolean {
+        const state = this.orders.get(orderId);
+        if (!state || (state.status !== 'live' && state.status !== 'partially_filled')) return false;
+        state.status = 'cancelled';
+        return true;
+    }
+
+    snapshot(): PaperAccountSnapshot {
+        return {
+            usdc: this.usdc,
+            positions: Object.fromEntries(this.positions),
+            openOrders: this.openOrders(),
+            fills: this.fills.map((f) => ({ ...f })),
+        };
+    }
+
+    private applyFills(state: PaperOrderState, fills: { price: number; size: number }[]) {
+        for (const fill of fills) {
+            const cost = fill.price * fill.size;
+            const shares = this.positionBalance(state.tokenId);
+            if (state.side === 'BUY') {
+                this.usdc -= cost;
+                this.positions.set(state.tokenId, shares + fill.size);
+            } else {
+                this.usdc += cost;
+                this.positions.set(state.tokenId, shares - fill.size);
+            }
+            state.averagePrice = (state.averagePrice * state.filledSize + cost) / (state.filledSize + fill.size);
+            state.filledSize += fill.size;
+            this.fills.push({ orderId: state.orderId, tokenId: state.tokenId, side: state.side, price: fill.price, size: fill.size, timestamp: Date.now() });
+        }
+        if (state.filledSize >= state.size - EPSILON) {
+            state.filledSize = state.size;
+            state.status = 'matched';
+        } else if (state.filledSize > 0) {
+            state.status = 'partially_filled';
+        }
+    }
+
+    /** USDC not committed to resting BUY orders. */
+    private availableUsdc(): number {
+        const reserved = this.openOrders()
+            .filter((o) => o.side === 'BUY')
+            .reduce((sum, o) => sum + o.price * (o.size - o.filledSize), 0);
+        return this.usdc - reserved;
+    }
+
+    /** Shares not committed to resting SELL orders. */
+    private availableShares(tokenId: string): number {
+        const reserved = this.openOrders()
+            .filter((o) => o.side === 'SELL' && o.tokenId === tokenId)
+            .reduce((sum, o) => sum + (o.size - o.filledSize), 0);
+        return this.positionBalance(tokenId) - reserved;
+    }
+}
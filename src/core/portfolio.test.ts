@@ -0,0 +1,52 @@
+// src/core/portfolio.test.ts
+import { describe, expect, it } from 'vitest';
+import { PortfolioSource, buildPortfolio } from './portfolio';
+import { TraderActivity, TraderPosition } from './types';
+
+const position = (marketSlug: string, size: number, initialValue: number, currentValue: number): TraderPosition => ({
+    marketSlug, outcome: 'Yes', size, currentPrice: currentValue / size, currentValue, initialValue, icon: '', endsOn: '2026-12-31T00:00:00Z',
+});
+const activity = (timestamp: number, fields: Partial<TraderActivity>): TraderActivity => ({
+    timestamp, outcome: 'Yes', price: 0, size: 0, usdcSize: 0, ...fields,
+});
+
+describe('buildPortfolio', () => {
+    it('takes realized PnL from the activity history, not from open positions', () => {
+        const polymarket: PortfolioSource = {
+            provider: 'polymarket',
+            address: '0xabc',
+            positions: [position('open', 10, 4, 7)],
+            activities: [
+                activity(1, { side: 'BUY', marketSlug: 'open', size: 20, usdcSize: 8 }),
+                activity(2, { side: 'SELL', marketSlug: 'open', size: 10, usdcSize: 5 }),
+                activity(3, { side: 'BUY', marketSlug: 'closed', size: 10, usdcSize: 6 }),
+                activity(4, { type: 'REDEEM', marketSlug: 'closed', size: 10, usdcSize: 10 }),
+            ],
+        };
+        const portfolio = buildPortfolio(['0xabc'], ['polymarket'], [polymarket], []);
+
+        expect(portfolio.totals).toMatchObject({ unrealizedPnl: 3, realizedPnl: 5 });
+        expect(portfolio.byProvider).toEqual([expect.objectContaining({ key: 'polymarket', realizedPnl: 5 })]);
+        expect(portfolio.byEvent.find((e) => e.key === 'open')).toMatchObject({ value: 7, unrealizedPnl: 3, realizedPnl: 1 });
+        expect(portfolio.byEvent.find((e) => e.key === 'closed')).toMatchObject({ value: 0, positionCount: 0, realizedPnl: 4 });
+        expect(portfolio.byEndDate[0].realizedPnl).toBeNull();
+    });
+
+    it('sums realized PnL across sources and leaves it null where no activity was read', () => {
+        const sources: PortfolioSource[] = [
+            { provider: 'polymarket', address: '0xabc', positions: [], activities: [
+                activity(1, { side: 'BUY', marketSlug: 'm', size: 10, usdcSize: 5 }),
+                activity(2, { side: 'SELL', marketSlug: 'm', size: 10, usdcSize: 3 }),
+            ] },
+            { provider: 'polymarket', address: '0xdef', positions: [], activities: [] },
+            { provider: 'limitless', address: '0xabc', positions: [position('l', 5, 2, 3)], activities: null },
+        ];
+        const portfolio = buildPortfolio(['0xabc', '0xdef'], ['polymarket', 'limitless'], sources, []);
+
+        expect(portfolio.totals.realizedPnl).toBe(-2);
+        expect(portfolio.byProvider.find((e) => e.key === 'polymarket')?.realizedPnl).toBe(-2);
+        expect(portfolio.byProvider.find((e) => e.key === 'limitless')?.realizedPnl).toBeNull();
+        expect(buildPortfolio(['0xabc'], ['limitless'], [sources[2]], []).totals.realizedPnl).toBeNull();
+        expect(buildPortfolio(['0xdef'], ['polymarket'], [sources[1]], []).totals.realizedPnl).toBe(0);
+    });
+});
@@ -0,0 +1,142 @@
+// src/core/portfolio.ts
+import { realizedPnlByMarket } from './activity';
+import {
+    Portfolio,
+    PortfolioExposure,
+    PortfolioPosition,
+    PortfolioTotals,
+    PortfolioWarning,
+    PredictionProvider,
+    TraderActivity,
+    TraderPosition
+} from './types';
+
+/**
+ * What was read for one address on one provider.
+ */
+export interface PortfolioSource {
+    provider: PredictionProvider;
+    address: string;
+    positions: TraderPosition[];
+    /** The whole activity history, or `null` if it could not be read. */
+    activities: TraderActivity[] | null;
+}
+
+/**
+ * Normalizes a provider position. Missing average prices are derived from the cost basis.
+ */
+export function normalizePosition(provider: PredictionProvider, address: string, position: TraderPosition): PortfolioPosition {
+    const value = position.currentValue;
+    const costBasis = position.initialValue;
+    return {
+        provider,
+        address,
+        conditionId: position.conditionId,
+        marketSlug: position.marketSlug,
+        outcome: position.outcome,
+        size: position.size,
+        averagePrice: position.averagePrice ?? (position.size > 0 ? costBasis / position.size : null),
+        currentPrice: position.currentPrice,
+        value,
+        costBasis,
+        unrealizedPnl: value - costBasis,
+        endsOn: position.endsOn,
+        icon: position.icon,
+        raw: position,
+    };
+}
+
+function sumPositions(positions: PortfolioPosition[]): Omit<PortfolioTotals, 'realizedPnl'> {
+    return positions.reduce(
+        (t, p) => ({
+            value: t.value + p.value,
+            costBasis: t.costBasis + p.costBasis,
+            unrealizedPnl: t.unrealizedPnl + p.unrealizedPnl,
+            positionCount: t.positionCount + 1,
+        }),
+        { value: 0, costBasis: 0, unrealizedPnl: 0, positionCount: 0 }
+    );
+}
+
+/**
+ * Realized PnL per event, reconstructed from one wallet's activity with `realizedPnlByMarket`.
+ */
+function realizedByEvent(activities: TraderActivity[]): Map<string, number> {
+    const realized = new Map<string, number>();
+    for (const market of realizedPnlByMarket(activities)) {
+        const key = market.marketSlug ?? 'unknown';
+        realized.set(key, (realized.get(key) ?? 0) + market.realizedPnl);
+    }
+    return realized;
+}
+
+function addRealized(a: number | null, b: number | null): number | null {
+    if (a === null) return b;
+    if (b === null) return a;
+    return a + b;
+}
+
+function exposure(
+    positions: PortfolioPosition[],
+    keyOf: (p: PortfolioPosition) => string,
+    totalValue: number,
+    realizedByKey?: Map<string, number | null>
+): PortfolioExposure[] {
+    const groups = new Map<string, PortfolioPosition[]>();
+    for (const p of positions) {
+        const key = keyOf(p);
+        groups.set(key, [...(groups.get(key) ?? []), p]);
+    }
+    realizedByKey?.forEach((_, key) => {
+        if (!groups.has(key)) groups.set(key, []);
+    });
+    return Array.from(groups, ([key, group]) => {
+        const totals = sumPositions(group);
+        return {
+            key,
+            ...totals,
+            realizedPnl: realizedByKey?.get(key) ?? null,
+            share: totalValue > 0 ? totals.value / totalValue : 0,
+        };
+    });
+}
+
+function endDateKey(endsOn: string): string {
+    const time = Date.parse(endsOn);
+    return Number.isNaN(time) ? 'unknown' : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Combines per-provider reads into a portfolio with totals and exposure breakdowns.
+ */
+export function buildPortfolio(
+    addresses: string[],
+    protocols: PredictionProvider[],
+    sources: PortfolioSource[],
+    warnings: PortfolioWarning[]
+): Portfolio {
+    const positions: PortfolioPosition[] = [];
+    const realizedByProvider = new Map<string, number | null>();
+    const realizedByEventKey = new Map<string, number | null>();
+    for (const source of sources) {
+        positions.push(...source.positions.map((p) => normalizePosition(source.provider, source.address, p)));
+        const events = source.activities ? realizedByEvent(source.activities) : null;
+        events?.forEach((pnl, key) => realizedByEventKey.set(key, addRealized(realizedByEventKey.get(key) ?? null, pnl)));
+        const realized = events ? Array.from(events.values()).reduce((sum, pnl) => sum + pnl, 0) : null;
+        realizedByProvider.set(source.provider, addRealized(realizedByProvider.get(source.provider) ?? null, realized));
+    }
+
+    const sums = sumPositions(positions);
+    const realized = Array.from(realizedByProvider.values()).reduce<number | null>(addRealized, null);
+    return {
+        addresses,
+        protocols,
+        positions,
+        totals: { ...sums, realizedPnl: realized },
+        byProvider: exposure(positions, (p) => p.provider, sums.value, realizedByProvider).sort((a, b) => b.value - a.value),
+        byEvent: exposure(positions, (p) => p.marketSlug ?? p.conditionId ?? 'unknown', sums.value, realizedByEventKey).sort((a, b) => b.value - a.value),
+        byEndDate: exposure(positions, (p) => endDateKey(p.endsOn), sums.value).sort((a, b) => a.key.localeCompare(b.key)),
+        warnings,
+        fetchedAt: Date.now(),
+    };
+}
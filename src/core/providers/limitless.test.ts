@@ -0,0 +1,184 @@
+// src/core/providers/limitless.test.ts
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Wallet } from '@ethersproject/wallet';
+import { ethers } from 'ethers';
+import { ORDER_STRUCTURE } from '@polymarket/order-utils';
+import { minimunAbi } from '../abi';
+import { LimitlessAdapter } from './limitless';
+import { Exchange, ExecuteOrderParams, PositionToken } from '../types';
+
+const CHAIN_ID = 8453;
+const EXCHANGE_ADDRESS = ethers.utils.getAddress('0xa1b2c3d4e5f60718293a4b5c6d7e8f9012345678');
+const SIGNING_MESSAGE = 'Welcome to Limitless: 1234';
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: IncomingMessage['headers'];
+    body: any;
+}
+
+/**
+ * A local stand-in for the parts of the Limitless REST API the adapter uses.
+ */
+function startStandIn(): Promise<{ server: Server; baseUrl: string; requests: RecordedRequest[]; orders: Record<string, unknown> }> {
+    const requests: RecordedRequest[] = [];
+    const orders: Record<string, unknown> = {};
+    const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string | string[]> = {}) => {
+        res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json', ...headers });
+        res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    };
+    const server = createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => { raw += chunk; });
+        req.on('end', () => {
+            const url = req.url ?? '';
+            requests.push({ method: req.method ?? '', url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+            if (req.method === 'GET' && url === '/markets/btc-above-100k') return send(res, 200, { venue: { exchange: EXCHANGE_ADDRESS } });
+            if (req.method === 'GET' && url === '/markets/amm-market') return send(res, 200, { venue: null });
+            if (req.method === 'GET' && url === '/auth/signing-message') return send(res, 200, SIGNING_MESSAGE);
+            if (req.method === 'POST' && url === '/auth/login') return send(res, 200, { id: 42 }, { 'Set-Cookie': ['limitless_session=abc; Path=/; HttpOnly'] });
+            if (req.method === 'POST' && url === '/orders') return send(res, 200, { id: 'order-1', status: 'LIVE' });
+            const order = url.match(/^\/orders\/(.+)$/);
+            if (req.method === 'GET' && order && orders[decodeURIComponent(order[1])]) return send(res, 200, orders[decodeURIComponent(order[1])]);
+            send(res, 404, { message: 'not found' });
+        });
+    });
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests, orders });
+        });
+    });
+}
+
+/**
+ * A provider that answers the allowance reads as already approved.
+ */
+function approvedProvider() {
+    const usdc = new ethers.utils.Interface(minimunAbi["usdc"]);
+    const ctf = new ethers.utils.Interface(minimunAbi["ctf"]);
+    return {
+        _isProvider: true,
+        async getNetwork() { return { chainId: CHAIN_ID, name: 'base' }; },
+        async call(tx: { data: string }) {
+            return tx.data.startsWith(usdc.getSighash('allowance'))
+                ? usdc.encodeFunctionResult('allowance', [ethers.constants.MaxUint256])
+                : ctf.encodeFunctionResult('isApprovedForAll', [true]);
+        },
+    } as unknown as ethers.providers.Provider;
+}
+
+const exchange = { id: 'ex-1', slug: 'btc-above-100k', position_tokens: [] } as unknown as Exchange;
+const positionToken: PositionToken = { token_id: '123456789', name: 'Yes', price: '0.4' };
+const params = { provider: 'limitless', marketIdOrSlug: 'btc-above-100k', positionIdOrName: 'Yes', buyOrSell: 'BUY', usdcFlowAbs: 4 } as ExecuteOrderParams;
+
+describe('LimitlessAdapter', () => {
+    let standIn: Awaited<ReturnType<typeof startStandIn>>;
+    let adapter: LimitlessAdapter;
+    const signer = new Wallet('0x' + '11'.repeat(32), approvedProvider());
+
+    beforeAll(async () => {
+        standIn = await startStandIn();
+    });
+    afterAll(() => new Promise<void>((resolve) => standIn.server.close(() => resolve())));
+    beforeEach(() => {
+        standIn.requests.length = 0;
+        adapter = new LimitlessAdapter({ apiBaseUrl: standIn.baseUrl, chainId: CHAIN_ID });
+    });
+
+    describe('buildOrder', () => {
+        it('signs the EIP-712 order for the market venue', async () => {
+            const built = await adapter.buildOrder({ params, exchange, positionToken, price: 0.4, size: 10, signer });
+
+            expect(built.exchangeAddress).toBe(EXCHANGE_ADDRESS);
+            expect(built.order).toMatchObject({
+                maker: signer.address,
+                signer: signer.address,
+                tokenId: positionToken.token_id,
+                makerAmount: '4000000',
+                takerAmount: '10000000',
+                side: '0',
+                signatureType: '0',
+            });
+            const { signature, ...order } = built.order;
+            const recovered = ethers.utils.verifyTypedData(
+                { name: 'Limitless CTF Exchange', version: '1', chainId: CHAIN_ID, verifyingContract: EXCHANGE_ADDRESS },
+                { Order: ORDER_STRUCTURE },
+                order,
+                signature
+            );
+            expect(recovered).toBe(signer.address);
+        });
+
+        it('swaps maker and taker amounts for a SELL', async () => {
+            const built = await adapter.buildOrder({ params: { ...params, buyOrSell: 'SELL' }, exchange, positionToken, price: 0.4, size: 10, signer });
+            expect(built.order).toMatchObject({ makerAmount: '10000000', takerAmount: '4000000', side: '1' });
+        });
+
+        it('looks the venue up once per market', async () => {
+            await adapter.buildOrder({ params, exchange, positionToken, price: 0.4, size: 10, signer });
+            await adapter.buildOrder({ params, exchange, positionToken, price: 0.5, size: 1, signer });
+            expect(standIn.requests.filter((r) => r.url === '/markets/btc-above-100k')).toHaveLength(1);
+        });
+
+        it('rejects markets without a CLOB venue and out-of-range prices', async () => {
+            await expect(adapter.buildOrder({ params, exchange: { ...exchange, slug: 'amm-market' }, positionToken, price: 0.4, size: 10, signer }))
+                .rejects.toThrow(/no CLOB venue/);
+            await expect(adapter.buildOrder({ params, exchange, positionToken, price: 1, size: 10, signer }))
+                .rejects.toThrow(/between 0 and 1/);
+        });
+    });
+
+    describe('executeOrder', () => {
+        it('logs in once and posts the signed order with the session', async () => {
+            const built = await adapter.buildOrder({ params, exchange, positionToken, price: 0.4, size: 10, signer });
+            const result = await adapter.executeOrder(built, { orderType: 'GTC', signer });
+            await adapter.executeOrder(built, { orderType: 'FOK', signer });
+
+            const login = standIn.requests.filter((r) => r.url === '/auth/login');
+            expect(login).toHaveLength(1);
+            expect(login[0].headers['x-account']).toBe(signer.address);
+            expect(ethers.utils.verifyMessage(SIGNING_MESSAGE, String(login[0].headers['x-signature']))).toBe(signer.address);
+
+            const posts = standIn.requests.filter((r) => r.method === 'POST' && r.url === '/orders');
+            expect(posts[0].headers.cookie).toBe('limitless_session=abc');
+            expect(posts[0].body).toMatchObject({ ownerId: 42, orderType: 'GTC', marketSlug: 'btc-above-100k' });
+            expect(posts[0].body.order).toMatchObject({ makerAmount: 4000000, takerAmount: 10000000, side: 0, price: 0.4, signature: built.order.signature });
+            expect(posts[1].body.order.price).toBeUndefined();
+            expect(result).toMatchObject({ provider: 'limitless', orderId: 'order-1', status: 'live', side: 'BUY', price: 0.4, size: 10 });
+        });
+
+        it('rejects order types Limitless does not support', async () => {
+            const built = await adapter.buildOrder({ params, exchange, positionToken, price: 0.4, size: 10, signer });
+            await expect(adapter.executeOrder(built, { orderType: 'GTD', signer })).rejects.toThrow(/not supported/);
+        });
+    });
+
+    describe('order status mapping', () => {
+        it.each([
+            ['LIVE', 'live'],
+            ['open', 'live'],
+            ['partially_filled', 'partially_filled'],
+            ['FILLED', 'matched'],
+            ['matched', 'matched'],
+            ['canceled', 'cancelled'],
+            ['CANCELLED', 'cancelled'],
+            ['expired', 'expired'],
+        ])('maps %s to %s', async (status, expected) => {
+            standIn.orders['o-1'] = { id: 'o-1', status, side: 'BUY', price: '0.4', originalSize: '10', remainingSize: '4', tokenId: 123 };
+            const order = await adapter.getOrder('o-1', { signer });
+            expect(order).toMatchObject({ orderId: 'o-1', status: expected, side: 'BUY', price: 0.4, size: 10, filledSize: 6, tokenId: '123' });
+        });
+
+        it('treats an unknown status as live when the order has an id, and failed otherwise', async () => {
+            standIn.orders['o-2'] = { id: 'o-2', status: 'pending_review', side: 1 };
+            standIn.orders['o-3'] = { status: 'rejected' };
+            expect((await adapter.getOrder('o-2', { signer })).status).toBe('live');
+            expect((await adapter.getOrder('o-2', { signer })).side).toBe('SELL');
+            expect((await adapter.getOrder('o-3', { signer })).status).toBe('failed');
+        });
+    });
+});
@@ -0,0 +1,339 @@
+// src/core/providers/limitless.ts
+import axios, { AxiosInstance } from 'axios';
+import { Wallet } from "@ethersproject/wallet";
+import { JsonRpcSigner } from "@ethersproject/providers";
+import { constants, ethers } from "ethers";
+import { ORDER_STRUCTURE, Side, SignatureType } from "@polymarket/order-utils";
+import { minimunAbi } from '../abi';
+import {
+    CancelOrdersResult,
+    Exchange,
+    LimitlessOptions,
+    LimitlessOrderResponse,
+    LimitlessSignedOrder,
+    OrderAdapter,
+    OrderBuildRequest,
+    OrderExecuteRequest,
+    OrderResult,
+    OrderStatus
+} from '../types';
+
+const DEFAULT_API_BASE_URL = 'https://api.limitless.exchange';
+const DEFAULT_CHAIN_ID = 8453;
+const DEFAULT_COLLATERAL_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const DEFAULT_CONDITIONAL_TOKENS_ADDRESS = '0xC9c98965297Bc527861c898329Ee280632B76e18';
+
+const PROTOCOL_NAME = 'Limitless CTF Exchange';
+const PROTOCOL_VERSION = '1';
+/** USDC and outcome shares both use 6 decimals on Limitless. */
+const DECIMALS = 1_000_000;
+
+/**
+ * Authenticated Limitless session.
+ */
+interface LimitlessSession {
+    account: string;
+    ownerId: number | string;
+    cookie: string;
+}
+
+/**
+ * Builds, signs and submits orders on Limitless.
+ *
+ * Orders use the same EIP-712 `Order` struct as the Polymarket CTF exchange, signed
+ * against the venue's exchange contract. Submitting requires a Limitless session,
+ * which is obtained once per account by signing the server's login message.
+ */
+export class LimitlessAdapter implements OrderAdapter<LimitlessSignedOrder> {
+    readonly provider = 'limitless';
+    private http: AxiosInstance;
+    private readonly chainId: number;
+    private readonly collateralAddress: string;
+    private readonly conditionalTokensAddress: string;
+    private sessions = new Map<string, LimitlessSession>();
+    private venues = new Map<string, string>();
+
+    constructor(options?: LimitlessOptions) {
+        this.http = axios.create({
+            baseURL: options?.apiBaseUrl || DEFAULT_API_BASE_URL,
+            timeout: options?.timeout || 30000,
+            headers: {
+                'Content-Type': 'application/json',
+            },
+        });
+        this.chainId = options?.chainId || DEFAULT_CHAIN_ID;
+        this.collateralAddress = options?.collateralAddress || DEFAULT_COLLATERAL_ADDRESS;
+        this.conditionalTokensAddress = options?.conditionalTokensAddress || DEFAULT_CONDITIONAL_TOKENS_ADDRESS;
+    }
+
+    /**
+     * Signs a limit order for the requested position token.
+     * The exchange's `slug` identifies the Limitless market.
+     */
+    async buildOrder({ params, exchange, positionToken, price, size, signer }: OrderBuildRequest): Promise<LimitlessSignedOrder> {
+        const marketSlug = exchange.slug;
+        if (!marketSlug) {
+            throw new Error(`Limitless exchange ${exchange.id} has no slug.`);
+        }
+        if (!(price > 0 && price < 1)) {
+            throw new Error(`Limitless price must be between 0 and 1 (exclusive), got ${price}.`);
+        }
+        if (!(size > 0)) {
+            throw new Error(`Limitless order size must be positive, got ${size}.`);
+        }
+
+        const exchangeAddress = await this.resolveExchangeAddress(marketSlug);
+        const maker = await signer.getAddress();
+        const isBuy = params.buyOrSell === 'BUY';
+        const shares = Math.floor(size * DECIMALS);
+        const collateral = Math.floor(price * size * DECIMALS);
+
+        const order = {
+            salt: String(Math.round(Math.random() * Date.now())),
+            maker,
+            signer: maker,
+            taker: params.taker || constants.AddressZero,
+            tokenId: positionToken.token_id,
+            makerAmount: String(isBuy ? collateral : shares),
+            takerAmount: String(isBuy ? shares : collateral),
+            expiration: String(params.expiration ?? 0),
+            nonce: String(params.nonce ?? 0),
+            feeRateBps: String(params.feeRateBps ?? 0),
+            side: isBuy ? Side.BUY : Side.SELL,
+            signatureType: SignatureType.EOA,
+        };
+
+        const signature = await signer._signTypedData(
+            { name: PROTOCOL_NAME, version: PROTOCOL_VERSION, chainId: this.chainId, verifyingContract: exchangeAddress },
+            { Order: ORDER_STRUCTURE },
+            order
+        );
+
+        return {
+            provider: 'limitless',
+            marketSlug,
+            exchangeAddress,
+            price,
+            order: {
+                ...order,
+                side: String(order.side),
+                signatureType: String(order.signatureType),
+                signature,
+            },
+        };
+    }
+
+    /**
+     * Ensures allowances are in place and submits a signed order.
+     * Only `GTC` (resting limit order) and `FOK` (fill immediately or cancel) are supported.
+     */
+    async executeOrder(signed: LimitlessSignedOrder, { orderType, signer }: OrderExecuteRequest): Promise<OrderResult> {
+        if (orderType !== 'GTC' && orderType !== 'FOK') {
+            throw new Error(`Order type ${orderType} is not supported by Limitless`);
+        }
+        await this.ensureAllowances(signer, signed.exchangeAddress);
+        const session = await this.login(signer);
+        const { order } = signed;
+
+        const response = await this.http.post<LimitlessOrderResponse>('/orders', {
+            order: {
+                salt: Number(order.salt),
+                maker: order.maker,
+                signer: order.signer,
+                taker: order.taker,
+                tokenId: order.tokenId,
+                makerAmount: Number(order.makerAmount),
+                takerAmount: Number(order.takerAmount),
+                expiration: order.expiration,
+                nonce: Number(order.nonce),
+                feeRateBps: Number(order.feeRateBps),
+                side: Number(order.side),
+                signatureType: Number(order.signatureType),
+                signature: order.signature,
+                ...(orderType === 'GTC' ? { price: signed.price } : {}),
+            },
+            ownerId: session.ownerId,
+            orderType,
+            marketSlug: signed.marketSlug,
+        }, {
+            headers: { Cookie: session.cookie },
+        });
+        return this.toOrderResult(signed, response.data);
+    }
+
+    /**
+     * Fetches the current state of an order placed by the signer's account.
+     */
+    async getOrder(orderId: string, { signer }: { signer?: Wallet | JsonRpcSigner }): Promise<OrderResult> {
+        if (!signer) {
+            throw new Error('A signer is required to query Limitless orders.');
+        }
+        const session = await this.login(signer);
+        const response = await this.http.get<LimitlessOrderResponse>(`/orders/${encodeURIComponent(orderId)}`, {
+            headers: { Cookie: session.cookie },
+        });
+        return this.fromApiOrder(response.data, orderId);
+    }
+
+    /**
+     * Lists the signer's resting orders on a market. Limitless only lists orders per market.
+     */
+    async getOpenOrders({ signer, exchange }: { signer: Wallet | JsonRpcSigner; exchange?: Exchange }): Promise<OrderResult[]> {
+        if (!exchange?.slug) {
+            throw new Error('Limitless open orders can only be listed for a market slug.');
+        }
+        const session = await this.login(signer);
+        const response = await this.http.get<LimitlessOrderResponse[] | { orders?: LimitlessOrderResponse[] }>(
+            `/markets/${encodeURIComponent(exchange.slug)}/user-orders`,
+            { headers: { Cookie: session.cookie } }
+        );
+        const orders = Array.isArray(response.data) ? response.data : response.data?.orders ?? [];
+        return orders
+            .map((order) => this.fromApiOrder(order, String(order.id)))
+            .filter((order) => order.status === 'live' || order.status === 'partially_filled');
+    }
+
+    /**
+     * Cancels orders by id in a single batch request.
+     */
+    async cancelOrders(orderIds: string[], { signer }: { signer: Wallet | JsonRpcSigner }): Promise<CancelOrdersResult> {
+        const session = await this.login(signer);
+        await this.http.post('/orders/cancel-batch', { orderIds }, {
+            headers: { Cookie: session.cookie },
+        });
+        return { cancelled: [...orderIds], notCancelled: {} };
+    }
+
+    /**
+     * Cancels all of the signer's orders on a market.
+     */
+    async cancelMarketOrders(exchange: Exchange, { signer }: { signer: Wallet | JsonRpcSigner }): Promise<CancelOrdersResult> {
+        // The bulk endpoint does not report which orders it cancelled, so list them first.
+        const open = await this.getOpenOrders({ signer, exchange });
+        const session = await this.login(signer);
+        await this.http.delete(`/orders/all/${encodeURIComponent(exchange.slug!)}`, {
+            headers: { Cookie: session.cookie },
+        });
+        return { cancelled: open.map((o) => o.orderId!), notCancelled: {} };
+    }
+
+    private fromApiOrder(order: LimitlessOrderResponse, orderId: string): OrderResult {
+        const isBuy = String(order?.side).toUpperCase() !== 'SELL' && String(order?.side) !== String(Side.SELL);
+        const size = Number(order?.originalSize ?? order?.size ?? 0);
+        const remaining = order?.remainingSize !== undefined ? Number(order.remainingSize) : undefined;
+        return {
+            provider: this.provider,
+            orderId,
+            status: this.toOrderStatus(order),
+            side: isBuy ? 'BUY' : 'SELL',
+            price: Number(order?.price ?? 0),
+            size,
+            filledSize: remaining !== undefined ? size - remaining : undefined,
+            tokenId: order?.tokenId !== undefined ? String(order.tokenId) : undefined,
+            raw: order,
+        };
+    }
+
+    private toOrderStatus(response: LimitlessOrderResponse): OrderStatus {
+        const statuses: Record<string, OrderStatus> = {
+            live: 'live',
+            open: 'live',
+            partially_filled: 'partially_filled',
+            matched: 'matched',
+            filled: 'matched',
+            cancelled: 'cancelled',
+            canceled: 'cancelled',
+            expired: 'expired',
+        };
+        return statuses[String(response?.status ?? '').toLowerCase()] ?? (response?.id ? 'live' : 'failed');
+    }
+
+    private toOrderResult(signed: LimitlessSignedOrder, response: LimitlessOrderResponse): OrderResult {
+        const isBuy = signed.order.side === String(Side.BUY);
+        const shares = Number(isBuy ? signed.order.takerAmount : signed.order.makerAmount) / DECIMALS;
+        const status = this.toOrderStatus(response);
+        return {
+            provider: this.provider,
+            orderId: response?.id !== undefined ? String(response.id) : null,
+            status,
+            side: isBuy ? 'BUY' : 'SELL',
+            price: signed.price,
+            size: shares,
+            filledSize: status === 'matched' ? shares : undefined,
+            raw: response,
+        };
+    }
+
+    /**
+     * Looks up the exchange contract a market trades on.
+     */
+    private async resolveExchangeAddress(marketSlug: string): Promise<string> {
+        const cached = this.venues.get(marketSlug);
+        if (cached) return cached;
+        const response = await this.http.get<{ venue?: { exchange?: string } }>(`/markets/${encodeURIComponent(marketSlug)}`);
+        const exchangeAddress = response.data?.venue?.exchange;
+        if (!exchangeAddress || !ethers.utils.isAddress(exchangeAddress)) {
+            throw new Error(`Limitless market '${marketSlug}' has no CLOB venue.`);
+        }
+        this.venues.set(marketSlug, exchangeAddress);
+        return exchangeAddress;
+    }
+
+    /**
+     * Signs the Limitless login message and caches the resulting session cookie.
+     */
+    private async login(signer: Wallet | JsonRpcSigner): Promise<LimitlessSession> {
+        const account = ethers.utils.getAddress(await signer.getAddress());
+        const existing = this.sessions.get(account);
+        if (existing) return existing;
+
+        const { data: signingMessage } = await this.http.get<string>('/auth/signing-message', { responseType: 'text' });
+        const signature = await signer.signMessage(signingMessage);
+        const response = await this.http.post<{ id: number | string }>('/auth/login', { client: 'eoa' }, {
+            headers: {
+                'x-account': account,
+                'x-signing-message': ethers.utils.hexlify(ethers.utils.toUtf8Bytes(signingMessage)),
+                'x-signature': signature,
+            },
+        });
+        const setCookie = response.headers['set-cookie'];
+        const cookie = (Array.isArray(setCookie) ? setCookie : setCookie ? [String(setCookie)] : [])
+            .map((c) => c.split(';')[0])
+            .join('; ');
+        if (!cookie || response.data?.id === undefined) {
+            throw new Error('Limitless login did not return a session.');
+        }
+
+        const session = { account, ownerId: response.data.id, cookie };
+        this.sessions.set(account, session);
+        return session;
+    }
+
+    /**
+     * Approves the exchange to move collateral and outcome tokens if it cannot already.
+     */
+    private async ensureAllowances(signer: Wallet | JsonRpcSigner, exchangeAddress: string) {
+        const chainId = await signer.getChainId();
+        if (chainId !== this.chainId) {
+            throw new Error(`Limitless orders require a signer on chain ${this.chainId}, but the signer is on chain ${chainId}.`);
+        }
+        const owner = await signer.getAddress();
+        const usdc = new ethers.Contract(this.collateralAddress, minimunAbi["usdc"], signer);
+        const ctf = new ethers.Contract(this.conditionalTokensAddress, minimunAbi["ctf"], signer);
+
+        const [usdcAllowance, ctfApproved] = await Promise.all([
+            usdc.allowance(owner, exchangeAddress),
+            ctf.isApprovedForAll(owner, exchangeAddress),
+        ]);
+        if (!usdcAllowance.gt(constants.Zero)) {
+            const txn = await usdc.approve(exchangeAddress, constants.MaxUint256);
+            console.log(`[USDC->LimitlessExchange]: ${txn.hash}`);
+            await txn.wait();
+        }
+        if (!ctfApproved) {
+            const txn = await ctf.setApprovalForAll(exchangeAddress, true);
+            console.log(`[CTF->LimitlessExchange]: ${txn.hash}`);
+            await txn.wait();
+        }
+    }
+}
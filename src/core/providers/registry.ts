@@ -0,0 +1,37 @@
+// src/core/providers/registry.ts
+import { OrderAdapter, ProviderOrder } from '../types';
+
+/**
+ * Maps prediction providers to the `OrderAdapter` that trades on them.
+ */
+export class OrderAdapterRegistry {
+    private adapters = new Map<string, OrderAdapter<any>>();
+
+    /**
+     * Registers an adapter, replacing any adapter previously registered for the same provider.
+     */
+    register(adapter: OrderAdapter<any>) {
+        this.adapters.set(adapter.provider, adapter);
+    }
+
+    /**
+     * Returns the adapter for `provider`, or `undefined` if none is registered.
+     */
+    get(provider: string): OrderAdapter<any> | undefined {
+        return this.adapters.get(provider);
+    }
+
+    /**
+     * Lists the providers that have an adapter.
+     */
+    providers(): string[] {
+        return Array.from(this.adapters.keys());
+    }
+}
+
+/**
+ * Tells adapter-built orders (tagged with their provider) apart from Polymarket `SignedOrder`s.
+ */
+export function isProviderOrder(order: unknown): order is ProviderOrder {
+    return typeof order === 'object' && order !== null && typeof (order as ProviderOrder).provider === 'string';
+}
@@ -0,0 +1,194 @@
+// src/core/providers/truemarket.ts
+import { Wallet } from "@ethersproject/wallet";
+import { JsonRpcSigner } from "@ethersproject/providers";
+import { BigNumber, constants, ethers } from "ethers";
+import { minimunAbi } from '../abi';
+import {
+    OrderAdapter,
+    OrderBuildRequest,
+    OrderExecuteRequest,
+    OrderResult,
+    TrueMarketOptions,
+    TrueMarketOrder
+} from '../types';
+
+const DEFAULT_CHAIN_ID = 8453;
+const DEFAULT_COLLATERAL_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const DEFAULT_SWAP_ROUTER_ADDRESS = '0x2626664c2603336E57B271c5C0b26F421741e481';
+const DEFAULT_UNISWAP_FACTORY_ADDRESS = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
+const DEFAULT_SLIPPAGE_BPS = 100;
+
+/** Uniswap V3 fee tiers, tried in order when locating a pool. */
+const FEE_TIERS = [10000, 3000, 500, 100];
+
+const erc20Abi = [
+    ...minimunAbi["usdc"],
+    "function decimals() view returns (uint8)",
+];
+
+const uniswapAbi = {
+    factory: [
+        "function getPool(address, address, uint24) view returns (address)",
+    ],
+    pool: [
+        "function liquidity() view returns (uint128)",
+    ],
+    router: [
+        "function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) payable returns (uint256 amountOut)",
+    ],
+};
+
+/**
+ * Converts a decimal amount to base units without going through floating-point strings.
+ */
+function toBaseUnits(amount: number, decimals: number): BigNumber {
+    return ethers.utils.parseUnits(amount.toFixed(decimals), decimals);
+}
+
+/**
+ * Trades TrueMarket YES/NO tokens.
+ *
+ * TrueMarket outcome tokens are ERC-20s (`PositionToken.token_id` is the token address)
+ * traded against USDC in Uniswap V3 pools, so an "order" is an exact-input swap
+ * through the Uniswap router with a minimum output derived from the expected price.
+ */
+export class TrueMarketAdapter implements OrderAdapter<TrueMarketOrder> {
+    readonly provider = 'truemarket';
+    readonly enforcesSlippage = true;
+    private readonly chainId: number;
+    private readonly collateralAddress: string;
+    private readonly swapRouterAddress: string;
+    private readonly uniswapFactoryAddress: string;
+    private readonly defaultSlippageBps: number;
+    private pools = new Map<string, number>();
+
+    constructor(options?: TrueMarketOptions) {
+        this.chainId = options?.chainId || DEFAULT_CHAIN_ID;
+        this.collateralAddress = options?.collateralAddress || DEFAULT_COLLATERAL_ADDRESS;
+        this.swapRouterAddress = options?.swapRouterAddress || DEFAULT_SWAP_ROUTER_ADDRESS;
+        this.uniswapFactoryAddress = options?.uniswapFactoryAddress || DEFAULT_UNISWAP_FACTORY_ADDRESS;
+        this.defaultSlippageBps = options?.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    }
+
+    /**
+     * Prepares a swap: BUY spends `usdcFlowAbs` USDC on the position token,
+     * SELL sells `size` position tokens (defaulting to `usdcFlowAbs / price`) for USDC.
+     * The minimum output allows `params.maxSlippageBps` (or the configured default) of slippage from `price`.
+     */
+    async buildOrder({ params, exchange, positionToken, price, size, signer }: OrderBuildRequest): Promise<TrueMarketOrder> {
+        if (!ethers.utils.isAddress(positionToken.token_id)) {
+            throw new Error(`TrueMarket position token id must be an ERC-20 address, got '${positionToken.token_id}'.`);
+        }
+        if (!(price > 0 && price < 1)) {
+            throw new Error(`TrueMarket price must be between 0 and 1 (exclusive), got ${price}.`);
+        }
+        await this.assertChain(signer);
+
+        const isBuy = params.buyOrSell === 'BUY';
+        const tokenIn = isBuy ? this.collateralAddress : positionToken.token_id;
+        const tokenOut = isBuy ? positionToken.token_id : this.collateralAddress;
+        const poolFee = await this.resolvePoolFee(signer, tokenIn, tokenOut);
+
+        const [decimalsIn, decimalsOut] = await Promise.all([
+            new ethers.Contract(tokenIn, erc20Abi, signer).decimals(),
+            new ethers.Contract(tokenOut, erc20Abi, signer).decimals(),
+        ]);
+        const amountIn = isBuy ? params.usdcFlowAbs : size;
+        const expectedOut = isBuy ? params.usdcFlowAbs / price : size * price;
+        const slippageBps = params.maxSlippageBps ?? this.defaultSlippageBps;
+        const minimumOut = expectedOut * (10000 - slippageBps) / 10000;
+
+        return {
+            provider: 'truemarket',
+            exchangeId: exchange.id,
+            side: params.buyOrSell,
+            tokenIn,
+            tokenOut,
+            poolFee,
+            amountIn: toBaseUnits(amountIn, decimalsIn).toString(),
+            amountOutMinimum: toBaseUnits(minimumOut, decimalsOut).toString(),
+            price,
+            size: isBuy ? expectedOut : size,
+            recipient: params.taker || await signer.getAddress(),
+        };
+    }
+
+    /**
+     * Approves the router for `tokenIn` if needed, sends the swap and waits for it to be mined.
+     * The swap executes immediately, so every order type behaves like fill-or-kill. A reverted swap
+     * is returned with status `failed`.
+     */
+    async executeOrder(order: TrueMarketOrder, { signer }: OrderExecuteRequest): Promise<OrderResult> {
+        await this.assertChain(signer);
+        const owner = await signer.getAddress();
+        const amountIn = BigNumber.from(order.amountIn);
+
+        const tokenIn = new ethers.Contract(order.tokenIn, erc20Abi, signer);
+        const allowance: BigNumber = await tokenIn.allowance(owner, this.swapRouterAddress);
+        if (allowance.lt(amountIn)) {
+            const txn = await tokenIn.approve(this.swapRouterAddress, amountIn);
+            console.log(`[${order.side === 'BUY' ? 'USDC' : 'PositionToken'}->SwapRouter]: ${txn.hash}`);
+            await txn.wait();
+        }
+
+        const router = new ethers.Contract(this.swapRouterAddress, uniswapAbi.router, signer);
+        const txn = await router.exactInputSingle({
+            tokenIn: order.tokenIn,
+            tokenOut: order.tokenOut,
+            fee: order.poolFee,
+            recipient: order.recipient,
+            amountIn,
+            amountOutMinimum: order.amountOutMinimum,
+            sqrtPriceLimitX96: 0,
+        });
+        let receipt: ethers.ContractReceipt;
+        try {
+            receipt = await txn.wait();
+        } catch (error: any) {
+            // ethers rejects on a revert instead of returning a receipt with status 0.
+            if (error?.code !== 'CALL_EXCEPTION' || !error.receipt) throw error;
+            receipt = error.receipt;
+        }
+        const succeeded = receipt.status === 1;
+
+        return {
+            provider: this.provider,
+            orderId: txn.hash,
+            status: succeeded ? 'matched' : 'failed',
+            side: order.side,
+            price: order.price,
+            size: order.size,
+            filledSize: succeeded ? order.size : 0,
+            txHash: txn.hash,
+            raw: receipt,
+        };
+    }
+
+    /**
+     * Finds the fee tier of the pool with liquidity that trades `tokenA` against `tokenB`.
+     */
+    private async resolvePoolFee(signer: Wallet | JsonRpcSigner, tokenA: string, tokenB: string): Promise<number> {
+        const key = [tokenA, tokenB].map((t) => t.toLowerCase()).sort().join(':');
+        const cached = this.pools.get(key);
+        if (cached !== undefined) return cached;
+
+        const factory = new ethers.Contract(this.uniswapFactoryAddress, uniswapAbi.factory, signer);
+        for (const fee of FEE_TIERS) {
+            const poolAddress: string = await factory.getPool(tokenA, tokenB, fee);
+            if (poolAddress === constants.AddressZero) continue;
+            const liquidity: BigNumber = await new ethers.Contract(poolAddress, uniswapAbi.pool, signer).liquidity();
+            if (liquidity.gt(constants.Zero)) {
+                this.pools.set(key, fee);
+                return fee;
+            }
+        }
+        throw new Error(`No TrueMarket pool with liquidity found for ${tokenA}/${tokenB}.`);
+    }
+
+    private async assertChain(signer: Wallet | JsonRpcSigner) {
+        const chainId = await signer.getChainId();
+        if (chainId !== this.chainId) {
+            throw new Error(`TrueMarket trades require a signer on chain ${this.chainId}, but the signer is on chain ${chainId}.`);
+        }
+    }
+}
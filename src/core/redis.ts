@@ -0,0 +1,234 @@
+// src/core/redis.ts
+import type { Socket } from 'net';
+import { CacheStore } from './types';
+
+type RespValue = string | number | null | RespValue[] | Error;
+
+/**
+ * Result of parsing one RESP reply: the value and the offset just past it.
+ */
+interface ParsedReply {
+    value: RespValue;
+    next: number;
+}
+
+/**
+ * Parses one RESP2 reply starting at `offset`.
+ * @returns The parsed reply, or `null` if the buffer does not yet hold a complete reply.
+ */
+function parseReply(buf: Buffer, offset: number): ParsedReply | null {
+    const lineEnd = buf.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+    const type = String.fromCharCode(buf[offset]);
+    const line = buf.toString('utf8', offset + 1, lineEnd);
+    const afterLine = lineEnd + 2;
+
+    switch (type) {
+        case '+':
+            return { value: line, next: afterLine };
+        case '-':
+            return { value: new Error(line), next: afterLine };
+        case ':':
+            return { value: parseInt(line, 10), next: afterLine };
+        case '$': {
+            const length = parseInt(line, 10);
+            if (length === -1) return { value: null, next: afterLine };
+            if (buf.length < afterLine + length + 2) return null;
+            return { value: buf.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+        }
+        case '*': {
+            const count = parseInt(line, 10);
+            if (count === -1) return { value: null, next: afterLine };
+            const items: RespValue[] = [];
+            let next = afterLine;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buf, next);
+                if (!item) return null;
+                items.push(item.value);
+                next = item.next;
+            }
+            return { value: items, next };
+        }
+        default:
+            throw new Error(`Unexpected RESP reply type '${type}'.`);
+    }
+}
+
+function encodeCommand(args: string[]): string {
+    let out = `*${args.length}\r\n`;
+    for (const arg of args) {
+        out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+    }
+    return out;
+}
+
+/**
+ * `CacheStore` backed by a Redis (or any RESP-compatible) server.
+ *
+ * Speaks the Redis protocol directly over a TCP/TLS socket so the SDK needs no Redis client dependency.
+ * The connection is opened lazily on first use and re-opened after a disconnect. An idle
+ * connection does not keep the process alive; commands in flight do, until they time out.
+ * Requires Node.js.
+ */
+export class RedisCacheStore implements CacheStore {
+    private readonly url: URL;
+    private socket: Socket | null = null;
+    private connecting: Promise<Socket> | null = null;
+    private buffer = Buffer.alloc(0);
+    private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+
+    /**
+     * @param redisUrl - `redis://[[user]:password@]host[:port][/db]`, or `rediss://` for TLS.
+     * @param commandTimeoutMs - How long a single command may take before the connection is dropped.
+     * @param connectTimeoutMs - How long to wait for the connection; the command then fails and the cache falls through to the network.
+     */
+    constructor(
+        redisUrl: string,
+        private readonly commandTimeoutMs: number = 5000,
+        private readonly connectTimeoutMs: number = 5000
+    ) {
+        this.url = new URL(redisUrl);
+        if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+            throw new Error(`Unsupported Redis URL protocol '${this.url.protocol}'.`);
+        }
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const reply = await this.command(['GET', key]);
+        return typeof reply === 'string' ? reply : undefined;
+    }
+
+    async set(key: string, value: string, ttlMs: number): Promise<void> {
+        await this.command(['SET', key, value, 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.command(['DEL', key]);
+    }
+
+    async clear(prefix?: string): Promise<void> {
+        // Never FLUSHDB: the database may be shared with other applications.
+        const pattern = `${(prefix ?? '').replace(/[*?[\]\\]/g, '\\$&')}*`;
+        let cursor = '0';
+        do {
+            const reply = await this.command(['SCAN', cursor, 'MATCH', pattern, 'COUNT', '500']);
+            if (!Array.isArray(reply) || reply.length !== 2 || !Array.isArray(reply[1])) {
+                throw new Error('Unexpected SCAN reply from Redis.');
+            }
+            cursor = String(reply[0]);
+            const keys = (reply[1] as RespValue[]).filter((k): k is string => typeof k === 'string');
+            if (keys.length > 0) {
+                await this.command(['DEL', ...keys]);
+            }
+        } while (cursor !== '0');
+    }
+
+    /**
+     * Closes the connection. Subsequent commands re-open it.
+     */
+    disconnect() {
+        this.socket?.end();
+        this.socket = null;
+    }
+
+    private async command(args: string[]): Promise<RespValue> {
+        const socket = await this.connect();
+        return this.send(socket, args);
+    }
+
+    private send(socket: Socket, args: string[]): Promise<RespValue> {
+        return new Promise<RespValue>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.fail(socket, new Error(`Redis command ${args[0]} timed out after ${this.commandTimeoutMs}ms.`));
+            }, this.commandTimeoutMs);
+            this.pending.push({
+                resolve: (value) => {
+                    clearTimeout(timer);
+                    if (value instanceof Error) reject(value);
+                    else resolve(value);
+                },
+                reject: (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+            });
+            socket.write(encodeCommand(args));
+        });
+    }
+
+    private connect(): Promise<Socket> {
+        if (this.socket) return Promise.resolve(this.socket);
+        if (this.connecting) return this.connecting;
+
+        this.connecting = (async () => {
+            const port = this.url.port ? parseInt(this.url.port, 10) : 6379;
+            const host = this.url.hostname || '127.0.0.1';
+            const socket: Socket = this.url.protocol === 'rediss:'
+                ? (await import('tls')).connect({ host, port, servername: host })
+                : (await import('net')).connect({ host, port });
+
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    socket.destroy();
+                    reject(new Error(`Redis connection to ${host}:${port} timed out after ${this.connectTimeoutMs}ms.`));
+                }, this.connectTimeoutMs);
+                socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+                socket.once('error', (error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                });
+            });
+
+            this.buffer = Buffer.alloc(0);
+            socket.on('data', (chunk: Buffer) => this.onData(socket, chunk));
+            socket.on('error', (error) => this.fail(socket, error));
+            socket.on('close', () => this.fail(socket, new Error('Redis connection closed.')));
+
+            const password = decodeURIComponent(this.url.password);
+            const username = decodeURIComponent(this.url.username);
+            if (password) {
+                await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+            }
+            const db = this.url.pathname.replace(/^\//, '');
+            if (db && db !== '0') {
+                await this.send(socket, ['SELECT', db]);
+            }
+            // Pending commands hold the process open through their timeout timers.
+            socket.unref();
+            this.socket = socket;
+            return socket;
+        })();
+
+        return this.connecting.finally(() => {
+            this.connecting = null;
+        });
+    }
+
+    private onData(socket: Socket, chunk: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        let offset = 0;
+        try {
+            while (offset < this.buffer.length) {
+                const reply = parseReply(this.buffer, offset);
+                if (!reply) break;
+                offset = reply.next;
+                this.pending.shift()?.resolve(reply.value);
+            }
+        } catch (error) {
+            this.fail(socket, error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        this.buffer = this.buffer.subarray(offset);
+    }
+
+    private fail(socket: Socket, error: Error) {
+        if (this.socket === socket) this.socket = null;
+        socket.destroy();
+        const pending = this.pending;
+        this.pending = [];
+        for (const p of pending) p.reject(error);
+    }
+}
@@ -0,0 +1,82 @@
+// src/core/retry.ts
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { computeBackoffDelay, resolveBackoffPolicy } from './backoff';
+import { RetryPolicy } from './types';
+
+const DEFAULT_RETRY_METHODS = ['get', 'head', 'options'];
+const DEFAULT_RETRY_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Request config carrying the number of attempts made so far.
+ */
+type RetryableRequestConfig = AxiosRequestConfig & { polynanceAttempt?: number };
+
+/**
+ * Returns how many times the request behind the given config was sent (1 if it was never retried).
+ * @param config - The axios request config, typically `error.config`.
+ */
+export function getAttemptCount(config?: AxiosRequestConfig): number {
+    return (config as RetryableRequestConfig | undefined)?.polynanceAttempt ?? 1;
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ * @param value - The raw header value.
+ * @returns The delay in milliseconds, or `undefined` if the header is absent or malformed.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) return undefined;
+    return Math.max(0, date - Date.now());
+}
+
+/**
+ * Installs a response interceptor that retries failed requests according to `policy`.
+ * Retries use exponential backoff with jitter, or the server's `Retry-After` when present.
+ * @param instance - The axios instance to retry requests on.
+ * @param policy - The retry policy; `maxAttempts` counts retries, not the initial request.
+ */
+export function attachRetryInterceptor(instance: AxiosInstance, policy: RetryPolicy) {
+    const backoff = resolveBackoffPolicy({ maxAttempts: 3 }, policy);
+    const retryMethods = (policy.retryMethods ?? DEFAULT_RETRY_METHODS).map((m) => m.toLowerCase());
+    const retryStatusCodes = policy.retryStatusCodes ?? DEFAULT_RETRY_STATUS_CODES;
+    const retryOnNetworkError = policy.retryOnNetworkError ?? true;
+    const maxRetryAfterMs = policy.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+
+    const isRetryable = (error: AxiosError): boolean => {
+        const method = (error.config?.method ?? 'get').toLowerCase();
+        if (!retryMethods.includes(method)) return false;
+        if (error.response) return retryStatusCodes.includes(error.response.status);
+        if (error.code === AxiosError.ERR_CANCELED) return false;
+        return retryOnNetworkError;
+    };
+
+    instance.interceptors.response.use(undefined, async (error) => {
+        if (!axios.isAxiosError(error) || !error.config) {
+            throw error;
+        }
+        const config = error.config as RetryableRequestConfig;
+        const attempt = config.polynanceAttempt ?? 1;
+        config.polynanceAttempt = attempt;
+        if (attempt > backoff.maxAttempts || !isRetryable(error)) {
+            throw error;
+        }
+
+        const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+            throw error;
+        }
+        const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, backoff);
+        console.warn(`[retry] ${config.method?.toUpperCase()} ${config.url} failed (${error.response?.status ?? error.code}). Retrying in ${delayMs}ms (attempt ${attempt + 1}/${backoff.maxAttempts + 1}).`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+        config.polynanceAttempt = attempt + 1;
+        return instance.request(config);
+    });
+}
@@ -0,0 +1,90 @@
+// src/core/sse.test.ts
+import { describe, expect, it } from 'vitest';
+import { SseMessage, SseParser, TradeStreamCursor } from './sse';
+import { TradeRecord } from './types';
+
+const trade = (timestamp: number, price = 0.5, volumeBase = 10): TradeRecord => ({ timestamp, price, volumeBase });
+
+function parse(text: string, initialEventId?: string | null): SseMessage[] {
+    const messages: SseMessage[] = [];
+    new SseParser((message) => messages.push(message), initialEventId).feed(text);
+    return messages;
+}
+
+describe('SseParser', () => {
+    it('carries the last event id over to events without one', () => {
+        const messages = parse('id: 1\ndata: a\n\ndata: b\n\nid: 2\ndata: c\n\n');
+        expect(messages.map((m) => [m.data, m.id])).toEqual([['a', '1'], ['b', '1'], ['c', '2']]);
+    });
+
+    it('starts from the initial event id and keeps it until the server sends another', () => {
+        expect(parse('data: a\n\n', 'resume-7')[0].id).toBe('resume-7');
+    });
+
+    it('joins data lines, reads event and retry fields and skips comments', () => {
+        const [message] = parse(': keep-alive\nevent: trade\nretry: 3000\ndata: x\ndata: y\n\n');
+        expect(message).toEqual({ event: 'trade', data: 'x\ny', id: null, retry: 3000 });
+    });
+
+    it('handles line breaks split across chunks', () => {
+        const messages: SseMessage[] = [];
+        const parser = new SseParser((message) => messages.push(message));
+        parser.feed('data: a\r');
+        parser.feed('\n\r');
+        parser.feed('\ndata: b\n\n');
+        expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+    });
+});
+
+describe('TradeStreamCursor', () => {
+    it('delivers events without their own id after one that had an id', () => {
+        const cursor = new TradeStreamCursor();
+        const accepted = parse('id: 1\ndata: a\n\ndata: b\n\ndata: c\n\n')
+            .map((message, i) => cursor.accept(trade(100 + i), message.id));
+        expect(accepted).toEqual([true, true, true]);
+        expect(cursor.getLastEventId()).toBe('1');
+    });
+
+    it('drops a repeated event id that is not the previous one', () => {
+        const cursor = new TradeStreamCursor();
+        expect(cursor.accept(trade(100), 'a')).toBe(true);
+        expect(cursor.accept(trade(101), 'b')).toBe(true);
+        expect(cursor.accept(trade(100), 'a')).toBe(false);
+        expect(cursor.accept(trade(102), 'c')).toBe(true);
+    });
+
+    it('drops records replayed after a reconnect and resumes at the first newer one', () => {
+        const cursor = new TradeStreamCursor();
+        [trade(100), trade(101), trade(101, 0.6)].forEach((t) => cursor.accept(t));
+        cursor.markDisconnected();
+        expect(cursor.resumeParams()).toEqual({ since: '101' });
+
+        expect(cursor.accept(trade(100))).toBe(false);
+        expect(cursor.accept(trade(101))).toBe(false);
+        expect(cursor.accept(trade(101, 0.6))).toBe(false);
+        // Same second, but not delivered before the disconnect.
+        expect(cursor.accept(trade(101, 0.7))).toBe(true);
+        expect(cursor.accept(trade(102))).toBe(true);
+        // Replay has ended: an older record is delivered again.
+        expect(cursor.accept(trade(101))).toBe(true);
+    });
+
+    it('does not filter id-less records without a reconnect', () => {
+        const cursor = new TradeStreamCursor();
+        expect(cursor.accept(trade(100))).toBe(true);
+        expect(cursor.accept(trade(100))).toBe(true);
+        expect(cursor.accept(trade(99))).toBe(true);
+    });
+
+    it('filters a replay by timestamp when every event repeats the resumed id', () => {
+        const cursor = new TradeStreamCursor();
+        cursor.accept(trade(100), 'x');
+        cursor.accept(trade(101), 'x');
+        cursor.markDisconnected();
+        expect(cursor.resumeParams()).toEqual({ lastEventId: 'x', since: '101' });
+
+        const replayed = parse('data: a\n\ndata: b\n\ndata: c\n\n', cursor.getLastEventId());
+        const accepted = [trade(100), trade(101), trade(102)].map((t, i) => cursor.accept(t, replayed[i].id));
+        expect(accepted).toEqual([false, false, true]);
+    });
+});
@@ -0,0 +1,364 @@
+// src/core/sse.ts
+import { SseTransportKind, TradeRecord } from './types';
+
+/**
+ * Maximum number of event ids remembered for de-duplication.
+ */
+const MAX_REMEMBERED_KEYS = 1000;
+
+/**
+ * How long a connection must stay up without delivering a message before it counts as
+ * re-established, resetting the reconnect attempt counter.
+ */
+export const STABLE_CONNECTION_MS = 10000;
+
+/**
+ * Tracks the position of a trade stream so that a reconnected subscription
+ * can resume where it left off without delivering the same fill twice.
+ *
+ * Records are de-duplicated by SSE event id when the server sends one. The SSE last event id
+ * carries over to later events that have none, so a repeat of the previous id counts as no id.
+ * Without ids, only records received after a reconnect are filtered: those older than the last
+ * trade delivered before the disconnect, and those matching (by price and volume)
+ * a trade delivered in that same second. Filtering stops at the first newer record.
+ */
+export class TradeStreamCursor {
+    private lastEventId: string | null = null;
+    private lastTimestamp: number | null = null;
+    private seenEventIds = new Set<string>();
+    /** How many trades of each fingerprint were delivered at `lastTimestamp`. */
+    private deliveredAtLastTimestamp = new Map<string, number>();
+    /** Set between a reconnect and the first record newer than what was delivered before it. */
+    private replay: { until: number; fingerprints: Map<string, number> } | null = null;
+
+    /**
+     * Records a received trade and reports whether it is new.
+     * @param record - The parsed trade record.
+     * @param eventId - The SSE last event id at this event, if the server provided one.
+     * @returns `true` if the record should be delivered, `false` if it is a replay.
+     */
+    accept(record: TradeRecord, eventId?: string | null): boolean {
+        const fingerprint = `${record.price}:${record.volumeBase}`;
+        if (eventId && eventId !== this.lastEventId) {
+            if (this.seenEventIds.has(eventId)) {
+                return false;
+            }
+            this.remember(this.seenEventIds, eventId);
+            this.lastEventId = eventId;
+        } else if (this.replay) {
+            if (record.timestamp < this.replay.until) {
+                return false;
+            }
+            if (record.timestamp === this.replay.until) {
+                const remaining = this.replay.fingerprints.get(fingerprint) ?? 0;
+                if (remaining > 0) {
+                    this.replay.fingerprints.set(fingerprint, remaining - 1);
+                    return false;
+                }
+            } else {
+                this.replay = null;
+            }
+        }
+
+        if (this.lastTimestamp === null || record.timestamp > this.lastTimestamp) {
+            this.lastTimestamp = record.timestamp;
+            this.deliveredAtLastTimestamp = new Map();
+        }
+        if (record.timestamp === this.lastTimestamp) {
+            this.deliveredAtLastTimestamp.set(fingerprint, (this.deliveredAtLastTimestamp.get(fingerprint) ?? 0) + 1);
+        }
+        return true;
+    }
+
+    /**
+     * Marks the stream as disconnected. Records received after the next connection are checked
+     * against what was delivered up to now.
+     */
+    markDisconnected() {
+        if (this.lastTimestamp === null) return;
+        this.replay = { until: this.lastTimestamp, fingerprints: new Map(this.deliveredAtLastTimestamp) };
+    }
+
+    /**
+     * Returns the id of the last event that carried one, or `null`.
+     */
+    getLastEventId(): string | null {
+        return this.lastEventId;
+    }
+
+    /**
+     * Builds the query parameters that ask the server to replay events after the current position.
+     */
+    resumeParams(): Record<string, string> {
+        const params: Record<string, string> = {};
+        if (this.lastEventId) params.lastEventId = this.lastEventId;
+        if (this.lastTimestamp !== null) params.since = String(this.lastTimestamp);
+        return params;
+    }
+
+    private remember(set: Set<string>, key: string) {
+        set.add(key);
+        if (set.size > MAX_REMEMBERED_KEYS) {
+            // Sets iterate in insertion order, so the first key is the oldest.
+            const oldest = set.values().next().value;
+            if (oldest !== undefined) set.delete(oldest);
+        }
+    }
+}
+
+/**
+ * A single dispatched Server-Sent Event.
+ */
+export interface SseMessage {
+    /** The event type; `'message'` when the server did not send an `event:` field. */
+    event: string;
+    /** The event payload, with multiple `data:` lines joined by `\n`. */
+    data: string;
+    /** The last event id seen on the stream (persists across events per the SSE spec). */
+    id: string | null;
+    /** Reconnection time in milliseconds requested by the server via `retry:`, if any. */
+    retry?: number;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format.
+ * Feed it decoded text chunks as they arrive; complete events are passed to `onEvent`.
+ */
+export class SseParser {
+    private buffer = '';
+    private dataLines: string[] = [];
+    private eventType = '';
+    private lastEventId: string | null = null;
+    private retry?: number;
+    /** Whether the previous chunk ended in `\r`, so a leading `\n` belongs to that line break. */
+    private pendingCarriageReturn = false;
+
+    constructor(private readonly onEvent: (message: SseMessage) => void, initialEventId?: string | null) {
+        this.lastEventId = initialEventId ?? null;
+    }
+
+    /**
+     * Parses a chunk of text. Incomplete trailing lines are buffered until the next chunk.
+     * @param chunk - Decoded text from the stream.
+     */
+    feed(chunk: string) {
+        if (this.pendingCarriageReturn && chunk.startsWith('\n')) {
+            chunk = chunk.substring(1);
+        }
+        this.pendingCarriageReturn = chunk.endsWith('\r');
+        this.buffer += chunk;
+
+        const lines = this.buffer.split(/\r\n|\r|\n/);
+        this.buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            this.processLine(line);
+        }
+    }
+
+    private processLine(line: string) {
+        if (line === '') {
+            this.dispatch();
+            return;
+        }
+        if (line.startsWith(':')) {
+            return; // Comment / keep-alive
+        }
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.substring(0, colon);
+        let value = colon === -1 ? '' : line.substring(colon + 1);
+        if (value.startsWith(' ')) value = value.substring(1);
+
+        switch (field) {
+            case 'event':
+                this.eventType = value;
+                break;
+            case 'data':
+                this.dataLines.push(value);
+                break;
+            case 'id':
+                // Ids containing NULL are ignored per the spec.
+                if (!value.includes('\0')) this.lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+                break;
+            default:
+                break; // Unknown fields are ignored
+        }
+    }
+
+    private dispatch() {
+        if (this.dataLines.length === 0) {
+            this.eventType = '';
+            return;
+        }
+        const message: SseMessage = {
+            event: this.eventType || 'message',
+            data: this.dataLines.join('\n'),
+            id: this.lastEventId,
+            retry: this.retry,
+        };
+        this.dataLines = [];
+        this.eventType = '';
+        this.onEvent(message);
+    }
+}
+
+/**
+ * Callbacks a transport uses to report connection activity.
+ */
+export interface SseTransportHandlers {
+    onOpen: (ev: Event) => void;
+    onMessage: (message: SseMessage) => void;
+    /**
+     * @param cause - The underlying failure.
+     * @param info.closed - Whether the connection is gone (as opposed to a transient error).
+     * @param info.fatal - Whether the server indicated the stream must not be retried.
+     * @param info.statusCode - The HTTP status, when the failure was an unexpected response.
+     */
+    onError: (cause: Error, info: { closed: boolean; fatal: boolean; statusCode?: number }) => void;
+}
+
+/**
+ * An open SSE connection, independent of the transport used.
+ */
+export interface SseConnection {
+    /** The native `EventSource`, or `null` when the fetch transport is used. */
+    readonly eventSource: EventSource | null;
+    /** Whether the connection has been closed. */
+    readonly closed: boolean;
+    close: () => void;
+}
+
+/**
+ * Options passed to a transport when opening a connection.
+ */
+export interface SseConnectOptions {
+    /** Extra request headers (fetch transport only; `EventSource` cannot send headers). */
+    headers?: Record<string, string>;
+    /** Id sent as `Last-Event-ID` so the server can resume the stream. */
+    lastEventId?: string | null;
+}
+
+/**
+ * Picks the concrete transport for the current environment.
+ * @param requested - The configured transport kind.
+ * @param hasHeaders - Whether custom headers must be sent.
+ * @returns The transport to use, or `null` if none is available.
+ */
+export function resolveSseTransport(requested: SseTransportKind, hasHeaders: boolean): Exclude<SseTransportKind, 'auto'> | null {
+    const hasEventSource = typeof EventSource !== 'undefined';
+    const hasFetch = typeof fetch === 'function' && typeof TextDecoder !== 'undefined';
+    if (requested === 'eventsource') return hasEventSource ? 'eventsource' : null;
+    if (requested === 'fetch') return hasFetch ? 'fetch' : null;
+    if (hasFetch && (hasHeaders || !hasEventSource)) return 'fetch';
+    if (hasEventSource) return 'eventsource';
+    return null;
+}
+
+/**
+ * Opens an SSE connection with the global `EventSource`.
+ * Native reconnection is disabled: the connection is closed on the first error so the caller's policy applies.
+ */
+export function openEventSourceConnection(url: string, handlers: SseTransportHandlers): SseConnection {
+    const source = new EventSource(url);
+    let closed = false;
+
+    source.onopen = (ev) => {
+        if (!closed) handlers.onOpen(ev);
+    };
+    source.onmessage = (event) => {
+        if (closed) return;
+        handlers.onMessage({ event: 'message', data: event.data, id: event.lastEventId || null });
+    };
+    source.onerror = (ev) => {
+        if (closed) return;
+        const wasClosed = source.readyState === EventSource.CLOSED;
+        closed = true;
+        source.close();
+        handlers.onError(new Error(`SSE Error Event: ${JSON.stringify(ev)}`), { closed: wasClosed, fatal: false });
+    };
+
+    return {
+        eventSource: source,
+        get closed() { return closed; },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            source.close();
+        },
+    };
+}
+
+/**
+ * Opens an SSE connection by streaming a `fetch` response through `SseParser`.
+ * Works in Node.js 18+ without an `EventSource` polyfill and supports custom headers.
+ */
+export function openFetchConnection(url: string, options: SseConnectOptions, handlers: SseTransportHandlers): SseConnection {
+    const controller = new AbortController();
+    let closed = false;
+
+    const headers: Record<string, string> = {
+        'Accept': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...options.headers,
+    };
+    if (options.lastEventId) headers['Last-Event-ID'] = options.lastEventId;
+
+    const fail = (cause: Error, fatal: boolean, statusCode?: number) => {
+        if (closed) return;
+        closed = true;
+        controller.abort();
+        handlers.onError(cause, { closed: true, fatal, statusCode });
+    };
+
+    (async () => {
+        const response = await fetch(url, { headers, signal: controller.signal });
+        if (response.status === 204) {
+            // The spec uses 204 No Content to tell clients to stop reconnecting.
+            fail(new Error('SSE endpoint responded with 204 No Content.'), true, response.status);
+            return;
+        }
+        if (!response.ok) {
+            const fatal = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+            fail(new Error(`SSE endpoint responded with HTTP ${response.status}.`), fatal, response.status);
+            return;
+        }
+        const contentType = response.headers.get('content-type') ?? '';
+        if (!contentType.includes('text/event-stream')) {
+            fail(new Error(`SSE endpoint responded with unexpected content type '${contentType}'.`), true, response.status);
+            return;
+        }
+        if (!response.body) {
+            fail(new Error('SSE response has no body.'), false, response.status);
+            return;
+        }
+
+        if (closed) return;
+        handlers.onOpen(typeof Event !== 'undefined' ? new Event('open') : ({ type: 'open' } as Event));
+
+        const parser = new SseParser((message) => {
+            if (!closed) handlers.onMessage(message);
+        }, options.lastEventId);
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        while (!closed) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parser.feed(decoder.decode(value, { stream: true }));
+        }
+        fail(new Error('SSE stream ended.'), false);
+    })().catch((error) => {
+        fail(error instanceof Error ? error : new Error(String(error)), false);
+    });
+
+    return {
+        eventSource: null,
+        get closed() { return closed; },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            controller.abort();
+        },
+    };
+}
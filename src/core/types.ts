@@ -1,6 +1,6 @@
 import { PolynanceApiError } from "./panic";
 import { Wallet } from "@ethersproject/wallet";
-import { JsonRpcSigner } from "@ethersproject/providers";
+import { JsonRpcProvider, JsonRpcSigner } from "@ethersproject/providers";
 import { BigNumber } from "ethers";
 /**
  * Represents the supported prediction market protocols.
@@ -113,7 +113,7 @@ export interface MarketDiscussion {
     /** Unique identifier for the discussion. */
     id: string;
     /** ID of the parent discussion if this is a reply, otherwise null or empty. */
-    parent_comment_id: string;
+    parent_comment_id?: string | null;
     /** User's chosen display name. */
     name: string;
     /** User's pseudonym (if applicable). */
@@ -166,6 +166,126 @@ export interface OrderBookLevel {
     size: number;
 }
 
+/**
+ * A change to one side of a live order book: the new total `size` at `price` (0 removes the level).
+ */
+export interface OrderBookLevelChange {
+    side: "BUY" | "SELL";
+    price: number;
+    size: number;
+}
+
+/**
+ * A message from an order book feed: a full book for one asset, or incremental changes to it.
+ */
+export type OrderBookUpdate =
+    | { type: 'snapshot'; book: OrderBookSummary }
+    | { type: 'delta'; assetId: string; changes: OrderBookLevelChange[]; hash?: string; timestamp?: string | number };
+
+/**
+ * A streaming source of order book updates.
+ */
+export interface OrderBookFeed {
+    /**
+     * Starts streaming updates for the given assets.
+     * @returns A handle that stops the stream.
+     */
+    subscribe(assetIds: string[], handlers: {
+        onUpdate: (update: OrderBookUpdate) => void;
+        onError: (error: Error) => void;
+    }): { close: () => void };
+}
+
+/**
+ * Options for a `LiveOrderBook`.
+ */
+export interface LiveOrderBookOptions {
+    /**
+     * Streaming source of incremental updates. Defaults to the Polymarket market WebSocket for Polymarket
+     * exchanges when `WebSocket` is available. `false` (or no feed) keeps the book current by re-snapshotting.
+     */
+    feed?: OrderBookFeed | false;
+    /**
+     * How often to re-snapshot when there is no feed, or while the feed is down.
+     * @default 1000
+     */
+    pollIntervalMs?: number;
+    /**
+     * How often to compare the streamed book with a fresh snapshot while the feed is up. 0 disables the check.
+     * @default 30000
+     */
+    verifyIntervalMs?: number;
+    /** Backoff between attempts to restore a failed feed. */
+    reconnect?: BackoffPolicy;
+}
+
+/**
+ * Describes a change applied to a live order book.
+ */
+export interface OrderBookChange {
+    assetId: string;
+    /** `snapshot` for a full book, `delta` for incremental changes, `resync` when a consistency check replaced drifted state. */
+    source: 'snapshot' | 'delta' | 'resync';
+    /** Levels whose size changed (size 0 = removed). */
+    changes: OrderBookLevelChange[];
+    bestBid: number | null;
+    bestAsk: number | null;
+}
+
+/**
+ * Handlers for a live order book.
+ */
+export interface LiveOrderBookHandlers {
+    onChange?: (change: OrderBookChange) => void;
+    onError?: (error: PolynanceApiError) => void;
+}
+
+/**
+ * Liquidity on one side of a book.
+ */
+export interface BookDepth {
+    /** Total shares. */
+    size: number;
+    /** Total USDC value (price * size). */
+    notional: number;
+    /** Number of levels counted. */
+    levels: number;
+}
+
+/**
+ * Expected execution of an order against the current order book.
+ */
+export interface OrderQuote {
+    provider: string;
+    exchangeId: string;
+    tokenId: string;
+    side: "BUY" | "SELL";
+    /** Shares that would be filled. */
+    filledSize: number;
+    /** USDC that would be spent (BUY) or received (SELL), before fees. */
+    notional: number;
+    /** Shares that could not be filled, for requests sized in shares (`size`). 0 otherwise. */
+    unfilledSize: number;
+    /** USDC that could not be spent or received, for requests sized in USDC (`usdcFlowAbs`). 0 otherwise. */
+    unfilledUsdc: number;
+    /** Volume-weighted average fill price; `null` if nothing fills. */
+    averagePrice: number | null;
+    /** Price of the best level taken; `null` if nothing fills. */
+    bestPrice: number | null;
+    /** Price of the last (worst) level taken; `null` if nothing fills. */
+    worstPrice: number | null;
+    /** Mid of the best bid and ask; `null` if either side of the book is empty. */
+    midPrice: number | null;
+    /** How much worse the average price is than the mid, as a fraction of the mid (0.01 = 1%). `null` without a mid or fill. */
+    priceImpact: number | null;
+    /** Fee rate used, in basis points. */
+    feeRateBps: number;
+    /** Expected fee in USDC. */
+    fee: number;
+    /** Levels taken, best first. */
+    fills: OrderBookLevel[];
+}
+
 /**
  * Represents data for a single trade execution.
  */
@@ -206,6 +326,66 @@ export interface TraderPosition {
     usdcSize: number;
     type?: string;
   }
+
+/**
+* Filters and paging for `getTraderActivity`.
+*/
+export interface TraderActivityQuery {
+  /** Only activity at or after this time (a `Date` or epoch seconds). */
+  from?: Date | number;
+  /** Only activity at or before this time (a `Date` or epoch seconds). */
+  to?: Date | number;
+  side?: "BUY" | "SELL";
+  marketSlug?: string;
+  /** Page size. Defaults to the endpoint's own default. */
+  limit?: number;
+  /** `nextCursor` of the previous page. Omit for the first page. */
+  cursor?: string;
+}
+
+/**
+* One page of trader activity.
+*/
+export interface TraderActivityPage {
+  activities: TraderActivity[];
+  /** Cursor for the next page; `null` or absent on the last page. */
+  nextCursor?: string | null;
+}
+
+/**
+* Options for `iterateTraderActivity`.
+*/
+export interface TraderActivityIterationOptions extends TraderActivityQuery {
+  /** Stops after this many pages even if more are available. */
+  maxPages?: number;
+  /** Aborts the iteration; the iterator then throws a `PolynanceApiError` with code `ABORTED`. */
+  signal?: AbortSignal;
+}
+
+/**
+* Realized PnL of one outcome of a market, reconstructed from trader activity with average-cost accounting.
+*/
+export interface MarketRealizedPnl {
+  marketSlug: string;
+  outcome: string;
+  /**
+   * Proceeds of sells and redemptions minus the average cost of the shares they closed, including
+   * losing shares closed at zero when another outcome of the market was redeemed.
+   */
+  realizedPnl: number;
+  /**
+   * Shares still held after the last activity. Losing shares of a market without any redemption
+   * in the history stay here, since nothing in the activity shows they resolved worthless.
+   */
+  openSize: number;
+  /** Average cost of the shares still held. */
+  averageCost: number;
+  boughtSize: number;
+  /** Shares closed by sells and redemptions, and losing shares closed by a redemption of another outcome. */
+  closedSize: number;
+  /** USDC traded in both directions. */
+  volume: number;
+}
   
   export interface TraderStats {
     portfolioValue: number | null;
@@ -244,6 +424,394 @@ export interface TraderBasic {
     tokenQty:      string;   // same as `amount` or indexSet.length for redemption
     collateralFlow:string;   // signed USDC flow
   }
+
+/**
+* Where a ledger read stopped, so the next read can resume after it.
+*/
+export interface LedgerCheckpoint {
+  /** Lowercase trader address. */
+  trader: string;
+  /** Conditional Tokens contract the entries were read from. */
+  contract: string;
+  /** First block the next read starts at. */
+  nextBlock: number;
+  /** Hash of block `nextBlock - 1` when it was read; used to detect reorgs deeper than the confirmation depth. */
+  lastBlockHash?: string;
+  /** Entries delivered from the blocks a rewind would read again, so they are not delivered twice. */
+  recentEntries?: Pick<LedgerEntry, 'blockNumber' | 'txHash' | 'logIndex'>[];
+}
+
+/**
+* Persists ledger checkpoints, one per trader and contract.
+*/
+export interface LedgerCheckpointStore {
+  load(trader: string, contract: string): Promise<LedgerCheckpoint | null>;
+  save(checkpoint: LedgerCheckpoint): Promise<void>;
+}
+
+/**
+* Settings for `CtfLedgerReader`.
+*/
+export interface LedgerReaderOptions {
+  /** Conditional Tokens contract to read. Defaults to the one configured for the provider's chain. */
+  contractAddress?: string;
+  /**
+   * Blocks per `eth_getLogs` request. Halved automatically when the node rejects a range.
+   * @default 2000
+   */
+  chunkSize?: number;
+  /**
+   * Blocks behind the chain head that are considered final; newer blocks are not read.
+   * @default 64
+   */
+  confirmations?: number;
+  /** Saves progress after every chunk so an interrupted read can resume. */
+  store?: LedgerCheckpointStore;
+}
+
+/**
+* Range and callbacks for one ledger read.
+*/
+export interface LedgerReadOptions {
+  /**
+   * First block to read. Required unless a checkpoint exists for the trader. A stored checkpoint is only
+   * updated when the read starts at it or gets past it.
+   */
+  fromBlock?: number;
+  /** Last block to read; capped at the confirmed head. Defaults to the confirmed head. */
+  toBlock?: number;
+  /** Called with each chunk's entries, in block order, before its checkpoint is saved. */
+  onEntries?: (entries: LedgerEntry[], range: { fromBlock: number; toBlock: number }) => void | Promise<void>;
+  /** Aborts between chunks with a `PolynanceApiError` with code `ABORTED`. */
+  signal?: AbortSignal;
+}
+
+/**
+* Outcome of a ledger read.
+*/
+export interface LedgerReadResult {
+  entries: LedgerEntry[];
+  fromBlock: number;
+  /** Last block read; `fromBlock - 1` if nothing was confirmed yet. */
+  toBlock: number;
+  checkpoint: LedgerCheckpoint;
+  /**
+   * Whether the checkpointed block was reorged away and the read restarted `confirmations` blocks earlier.
+   * Entries that were delivered before and are still on chain (same `txHash` and `logIndex`) are not
+   * returned again; earlier entries at or after `fromBlock` that are not returned again were reorged out.
+   */
+  rewound: boolean;
+}
+
+/**
+* Options for `splitPosition`, `mergePositions` and `redeemPositions`.
+*/
+export interface PositionTxOptions {
+  /** Connects the wallet to this provider if it has none. */
+  rpcProvider?: JsonRpcProvider;
+  /** Whether the market uses the neg-risk adapter. Detected from the CLOB when omitted. */
+  negRisk?: boolean;
+  /**
+   * Confirmations to wait for before returning.
+   * @default 1
+   */
+  confirmations?: number;
+}
+
+/**
+* Summary of a mined split, merge or redeem transaction.
+*/
+export interface PositionTxReceipt {
+  action: 'split' | 'merge' | 'redeem';
+  conditionId: string;
+  negRisk: boolean;
+  /** The wallet that sent the transaction. */
+  owner: string;
+  txHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  /** Wei per gas actually paid. */
+  effectiveGasPrice: string;
+  /** Shares per outcome split or merged, or redeemed per outcome (in outcome order), in 6-decimal base units. */
+  amounts: string[];
+  /** Signed USDC moved by the transaction from the owner's point of view, in 6-decimal base units. */
+  collateralFlow: string;
+  /** The Conditional Tokens events emitted by the transaction. */
+  entries: LedgerEntry[];
+}
+
+/**
+* A token balance in raw base units and as a decimal.
+*/
+export interface TokenBalance {
+  /** Balance in base units. */
+  raw: BigNumber;
+  decimals: number;
+  /** Exact decimal string, e.g. `"12.345678"`. */
+  formatted: string;
+  /** The balance as a number; may lose precision for very large balances. */
+  value: number;
+}
+
+/**
+* USDC and position-token balances of a wallet, read together.
+*/
+export interface WalletSnapshot {
+  address: string;
+  usdc: TokenBalance;
+  /** Balances keyed by position token id. */
+  positions: Record<string, TokenBalance>;
+  /** Block the balances were read at, when read through Multicall3. */
+  blockNumber: number | null;
+  /** Epoch milliseconds when the snapshot was taken. */
+  fetchedAt: number;
+}
+
+/**
+* Built-in network profiles: Polygon mainnet and the Amoy testnet.
+*/
+export type NetworkName = 'polygon' | 'amoy';
+
+/**
+* Polymarket contract addresses on a network, in the shape of `getContractConfig`.
+*/
+export interface NetworkContracts {
+  exchange: string;
+  negRiskAdapter: string;
+  negRiskExchange: string;
+  collateral: string;
+  conditionalTokens: string;
+}
+
+/**
+* Where the client trades: chain, CLOB endpoint, contracts and RPC.
+*/
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  /** Base URL of the Polymarket CLOB API. */
+  clobUrl: string;
+  /** Market-channel WebSocket for live order books. Books are polled when absent. */
+  clobWsUrl?: string;
+  contracts: NetworkContracts;
+  /** JSON-RPC endpoint used for on-chain reads and to connect a wallet that has no provider. */
+  rpcUrl?: string;
+  /** Multicall3 contract used to batch balance reads into one call. Reads are sent separately when absent. */
+  multicallAddress?: string;
+  /**
+   * Polymarket orders cannot be signed on this network. Set for dev chains and exchange overrides that
+   * `@polymarket/clob-client` does not know; reads, approvals and position transactions still work.
+   */
+  readOnly?: boolean;
+}
+
+/**
+* A custom network profile, optionally based on a preset. Without a `base`, a `chainId` of a
+* preset network fills in the preset's values; any other chain needs every field.
+* Chains other than Polygon and Amoy, and exchange addresses other than the built-in ones, need `readOnly: true`.
+*/
+export interface NetworkProfileOptions extends Partial<Omit<NetworkProfile, 'contracts'>> {
+  base?: NetworkName;
+  contracts?: Partial<NetworkContracts>;
+}
+
+/**
+* A contract from `getContractConfig` that can be approved to move the wallet's USDC or outcome tokens.
+* `conditionalTokens` only takes USDC (for splits).
+*/
+export type AllowanceSpender = 'exchange' | 'negRiskExchange' | 'negRiskAdapter' | 'conditionalTokens';
+
+/**
+* How much USDC to approve when an allowance is missing or too low:
+* - `unlimited`: `MaxUint256`.
+* - `exact`: exactly the amount `required` by the call.
+* - a number: a fixed cap in USDC.
+*/
+export type UsdcApprovalAmount = 'unlimited' | 'exact' | number;
+
+/**
+* Settings for the allowance manager, set once on the client.
+*/
+export interface AllowanceManagerOptions {
+  /**
+   * Approve missing allowances before Polymarket orders. When `false`, orders with missing
+   * allowances fail with `INSUFFICIENT_ALLOWANCE` instead.
+   * @default true
+   */
+  autoApprove?: boolean;
+  /** @default 'unlimited' */
+  usdcApproval?: UsdcApprovalAmount;
+  /**
+   * Confirmations to wait for after each approval.
+   * @default 1
+   */
+  confirmations?: number;
+  /**
+   * How long a sufficient allowance is trusted without re-reading the chain, in milliseconds. `0` disables caching.
+   * @default 300000 (5 minutes)
+   */
+  cacheTtlMs?: number;
+  /**
+   * Lower bound for the EIP-1559 priority fee, in gwei. Polygon rejects tips below about 25 gwei.
+   * @default 30
+   */
+  minPriorityFeeGwei?: number;
+  /**
+   * Multiplier applied to estimated gas limits.
+   * @default 1.2
+   */
+  gasLimitMultiplier?: number;
+}
+
+/**
+* Options for one allowance check or approval run.
+*/
+export interface AllowanceCheckOptions {
+  /** Spenders to cover. Defaults to the exchange, neg-risk exchange and neg-risk adapter. */
+  spenders?: AllowanceSpender[];
+  /** Approvals to cover: USDC allowances, outcome-token approvals, or both (the default). */
+  tokens?: AllowanceStatus['token'][];
+  /** USDC the next operation needs; allowances below it count as insufficient. Defaults to any non-zero allowance. */
+  required?: number;
+  /** Overrides the manager's `usdcApproval`. */
+  usdcApproval?: UsdcApprovalAmount;
+  /** Re-read the chain even if a cached result is still fresh. */
+  force?: boolean;
+}
+
+/**
+* The state of one approval.
+*/
+export interface AllowanceStatus {
+  spender: AllowanceSpender;
+  /** Contract address of the spender. */
+  address: string;
+  /** `usdc` for ERC-20 allowances, `ctf` for `setApprovalForAll` on outcome tokens. */
+  token: 'usdc' | 'ctf';
+  /** USDC allowance in 6-decimal base units; for `ctf`, `MaxUint256` if approved and `0` otherwise. */
+  allowance: string;
+  sufficient: boolean;
+  /** `approved` if this run sent an approval, `required` if one is still needed. */
+  action: 'none' | 'approved' | 'required';
+  /** Hash of the approval sent by this run. */
+  txHash?: string;
+}
+
+/**
+* An approval transaction sent by the allowance manager.
+*/
+export interface AllowanceTransaction {
+  spender: AllowanceSpender;
+  token: 'usdc' | 'ctf';
+  txHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  /** Wei per gas actually paid. */
+  effectiveGasPrice: string;
+  /** Approved USDC in base units; `true` for `ctf` approvals. */
+  amount: string | true;
+}
+
+/**
+* Result of an allowance check or approval run.
+*/
+export interface AllowanceReport {
+  owner: string;
+  /** USDC balance in 6-decimal base units; `null` when served from the cache. */
+  usdcBalance: string | null;
+  statuses: AllowanceStatus[];
+  transactions: AllowanceTransaction[];
+  /** Whether no approvals were sent because the run was check-only. */
+  checkOnly: boolean;
+  /** Whether every status is sufficient after this run. */
+  ready: boolean;
+  /** Whether the statuses came from the cache without reading the chain. */
+  cached: boolean;
+  /** Epoch milliseconds of the run. */
+  checkedAt: number;
+}
+
+/**
+* A `TraderPosition` normalized across providers.
+*/
+export interface PortfolioPosition {
+  provider: PredictionProvider;
+  /** The wallet holding the position. */
+  address: string;
+  conditionId?: string;
+  marketSlug?: string;
+  outcome: string;
+  size: number;
+  /** Average entry price, or `null` when the provider does not report it. */
+  averagePrice: number | null;
+  currentPrice: number;
+  /** Current value in USDC. */
+  value: number;
+  /** Amount paid for the position in USDC. */
+  costBasis: number;
+  /** `value - costBasis`. */
+  unrealizedPnl: number;
+  /** ISO 8601 end date of the market. */
+  endsOn: string;
+  icon: string;
+  /** The position as returned by `traderPositions`. */
+  raw: TraderPosition;
+}
+
+/**
+* Aggregated value and PnL of a set of positions.
+*/
+export interface PortfolioTotals {
+  value: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  /**
+   * Realized PnL, summed from `realizedPnlByMarket` over the activity of each wallet on each provider.
+   * `null` when no activity involved could be read. Not set on `byEndDate`.
+   */
+  realizedPnl: number | null;
+  positionCount: number;
+}
+
+/**
+* Portfolio exposure to one provider, event or end date.
+*/
+export interface PortfolioExposure extends PortfolioTotals {
+  /** The provider, the event slug (or condition id), or the end date as `YYYY-MM-DD`. */
+  key: string;
+  /** Share of the total portfolio value (0-1). */
+  share: number;
+}
+
+/**
+* A provider that could not be read for one address; the portfolio is built without it.
+*/
+export interface PortfolioWarning {
+  provider: PredictionProvider;
+  address: string;
+  /** Which read failed: positions are missing from the portfolio, activity only affects `realizedPnl`. */
+  source: 'positions' | 'activity';
+  error: PolynanceApiError;
+}
+
+/**
+* Positions of one or more wallets across providers, with totals and exposure breakdowns.
+*/
+export interface Portfolio {
+  addresses: string[];
+  protocols: PredictionProvider[];
+  positions: PortfolioPosition[];
+  totals: PortfolioTotals;
+  /** Exposure per provider, largest value first. */
+  byProvider: PortfolioExposure[];
+  /** Exposure per event, largest value first. */
+  byEvent: PortfolioExposure[];
+  /** Exposure per market end date, earliest first. */
+  byEndDate: PortfolioExposure[];
+  warnings: PortfolioWarning[];
+  /** Epoch milliseconds when the portfolio was fetched. */
+  fetchedAt: number;
+}
   
 //----
   export interface ExecuteOrderParams {
@@ -258,7 +826,23 @@ export interface TraderBasic {
     nonce?: number,
     expiration?: number,
     taker?: string,
-    provider: PredictionProvider
+    provider: PredictionProvider,
+    /**
+     * `market` takes liquidity at the best available prices: the limit price and size are derived from
+     * current book depth and the order is sent immediate-or-cancel. `limit` uses `price` (or the token's last price).
+     * @default 'limit'
+     */
+    mode?: 'limit' | 'market',
+    /**
+     * Maximum slippage of the expected average fill versus the best price on the book, in basis points.
+     * Orders expected to fill worse are rejected before signing with `ORDER_REJECTED`.
+     */
+    maxSlippageBps?: number,
+    /**
+     * Time in force used by `executeOrder` when it is not given one.
+     * @default 'FOK' for market orders, 'GTC' otherwise
+     */
+    orderType?: OrderTypeName
 }
 
 /**
@@ -273,9 +857,59 @@ export interface PolynanceClientOptions {
    */
   apiBaseUrl?: string;
   /**
-   * (Optional) Redis URL - potentially for future caching features. Currently unused in client logic.
+   * (Optional) Redis URL (`redis://[:password@]host:port[/db]` or `rediss://...`).
+   * When set, responses are cached in Redis, unless `cache` is `false` or `cache.store` is given.
    */
   redisUrl?: string;
+  /**
+   * Response cache settings. Caching is off unless this is `true` or an object, or `redisUrl` is set;
+   * `false` disables it even with `redisUrl`. The default store is an in-memory LRU cache with the
+   * TTLs listed on `CacheOptions.ttl`.
+   */
+  cache?: CacheOptions | boolean;
+  /**
+   * How API responses are checked against the SDK types.
+   * - `strict`: throw a `PolynanceApiError` with code `VALIDATION_ERROR`.
+   * - `warn`: log the mismatches and return the data unchanged.
+   * - `off`: skip validation.
+   * @default 'warn'
+   */
+  validation?: ValidationMode;
+  /**
+   * Settings for trading on Limitless.
+   */
+  limitless?: LimitlessOptions;
+  /**
+   * Settings for trading on TrueMarket.
+   */
+  truemarket?: TrueMarketOptions;
+  /**
+   * Additional order adapters to register, e.g. for protocols the SDK does not ship with.
+   * An adapter for a provider that already has one replaces it.
+   */
+  orderAdapters?: OrderAdapter[];
+  /**
+   * Settings for the order tracker that follows submitted orders until they reach a final state.
+   */
+  orderTracking?: OrderTrackingOptions;
+  /**
+   * Start in paper-trading mode: orders are filled against the live order book with a virtual account
+   * instead of being sent to the provider. `true` uses the default starting balances.
+   */
+  paperTrading?: PaperTradingOptions | boolean;
+  /**
+   * Settings for linking markets of different providers into canonical events.
+   */
+  eventLinking?: EventLinkingOptions;
+  /**
+   * Settings for checking and approving token allowances before Polymarket orders.
+   */
+  allowances?: AllowanceManagerOptions;
+  /**
+   * The network to trade on: a preset name or a custom profile (e.g. a local CLOB stand-in and dev chain).
+   * @default 'polygon'
+   */
+  network?: NetworkName | NetworkProfileOptions;
   /**
    * The base URL for the Polynance Server-Sent Events (SSE) endpoint.
    * @default 'http://57.180.216.102:9000'
@@ -286,86 +920,991 @@ export interface PolynanceClientOptions {
    * @default 100000 (100 seconds)
    */
   timeout?: number;
-}
-
-/**
-* Defines the handlers for Server-Sent Events (SSE) related to trade updates.
-* Note: onError now receives a PolynanceApiError.
-*/
-export interface TradeUpdateHandlers {
   /**
-   * Callback function executed when the SSE connection is successfully established.
-   * @param ev The native Event object.
+   * Retry policy for REST requests. Pass `false` to disable retries entirely.
+   * By default only idempotent requests (GET, HEAD, OPTIONS) are retried.
    */
-  onOpen?: (ev: Event) => void;
-
+  retry?: RetryPolicy | false;
   /**
-   * Callback function executed when a new message (a trade record) is received.
-   * The message data is pre-parsed into a `TradeRecord` object.
-   * @param data The parsed `TradeRecord` object for the received trade.
+   * Default reconnect policy applied to every `subscribeToTrades` call.
+   * Individual subscriptions can override it via `TradeSubscriptionOptions.reconnect`.
    */
-  onMessage?: (data: TradeRecord) => void;
-
+  reconnect?: ReconnectPolicy;
   /**
-   * Callback function executed when an error occurs with the SSE connection or message processing.
-   * @param error The `PolynanceApiError` representing the error.
+   * Transport used for Server-Sent Events.
+   * `auto` picks the built-in fetch reader on Node.js (or whenever `sseHeaders` are set) and `EventSource` otherwise.
+   * @default 'auto'
    */
-  onError?: (error: PolynanceApiError) => void; // Changed to PolynanceApiError
+  sseTransport?: SseTransportKind;
+  /**
+   * Extra headers (e.g. `Authorization`) sent with every SSE request. Requires the `fetch` transport.
+   */
+  sseHeaders?: Record<string, string>;
 }
 
 /**
-* Represents an active SSE subscription for trade updates.
+* Available Server-Sent Events transports.
+* - `eventsource`: the global `EventSource` (browsers or a polyfill).
+* - `fetch`: the SDK's built-in reader on top of `fetch`, available in Node.js 18+.
+* - `auto`: `fetch` when `EventSource` is missing or custom headers are required, `eventsource` otherwise.
 */
-export interface TradeSubscription {
+export type SseTransportKind = 'auto' | 'eventsource' | 'fetch';
+
+/**
+* Options for iterating over a paginated endpoint.
+*/
+export interface PageIterationOptions {
   /**
-   * The underlying `EventSource` instance managing the connection.
-   * You might use this for advanced control or debugging.
+   * First page to fetch (1-based).
+   * @default 1
    */
-  eventSource: EventSource;
-
+  startPage?: number;
   /**
-   * Closes the SSE connection and stops receiving further events.
-   * It's important to call this when the subscription is no longer needed
-   * to free up resources.
+   * Page size passed to the endpoint. Defaults to the endpoint's own default.
    */
-  close: () => void;
+  limit?: number;
+  /**
+   * Number of pages fetched ahead of the consumer. `1` fetches strictly one page at a time.
+   * Pages fetched past the last page are discarded.
+   * @default 1
+   */
+  concurrency?: number;
+  /**
+   * Stops after this many pages even if more are available.
+   */
+  maxPages?: number;
+  /**
+   * Aborts the iteration; the iterator then throws a `PolynanceApiError` with code `ABORTED`.
+   */
+  signal?: AbortSignal;
+}
 
+/**
+* Options for `iterateActiveMarkets`.
+*/
+export interface MarketIterationOptions extends PageIterationOptions {
   /**
-   * Retrieves the most recently received `TradeRecord` object.
-   * Returns `null` if no message has been received yet.
-   * Useful for getting the latest state without waiting for the next message.
+   * Skip markets whose `Market.id` was already yielded (pages can shift while being walked).
+   * @default false
    */
-  getLatestData: () => TradeRecord | null;
+  dedupe?: boolean;
 }
 
 /**
-* Represents a search result item when retrieving markets by query.
+* Options for `collectAll`.
 */
-export interface MarketMatchResult {
-  /** The prediction market that matched the search query. */
-  event: Market;
-  /** The cosine similarity score (typically 0.0 to 1.0) indicating the relevance of the market to the query. Higher is more relevant. */
-  cosineSimilarity: number;
+export interface CollectOptions {
+  /** Stop collecting after this many items. */
+  maxItems?: number;
+  /** Aborts collection with a `PolynanceApiError` with code `ABORTED`. */
+  signal?: AbortSignal;
 }
 
 /**
-* Represents a single candlestick data point.
+* Response validation mode. See `PolynanceClientOptions.validation`.
 */
-export interface Candle {
-  /** Unix timestamp (seconds) representing the start time of the candle interval. */
-  time: number;
-  /** The opening price during the candle interval. */
-  open: number;
-  /** The highest price reached during the candle interval. */
-  high: number;
-  /** The lowest price reached during the candle interval. */
-  low: number;
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+* A single mismatch between a response and the expected SDK type.
+*/
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. `$.markets[0].position_tokens[1].price`. */
+  path: string;
+  /** Description of the expected value. */
+  expected: string;
+  /** Description of the value actually received. */
+  received: string;
+}
+
+/**
+* SDK methods whose responses can be cached.
+*/
+export type CachedMethod = 'getMarket' | 'getExchange' | 'getSlugs' | 'getMarketBySlug' | 'search';
+
+/**
+* Storage backend for the response cache. Values are JSON strings so that
+* remote stores can hold them as-is and callers never share mutable objects.
+*/
+export interface CacheStore {
+  /** Returns the stored value, or `undefined` if it is missing or expired. */
+  get(key: string): Promise<string | undefined>;
+  /** Stores a value that expires after `ttlMs` milliseconds. */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  /** Removes a single key. */
+  delete(key: string): Promise<void>;
+  /** Removes every key starting with `prefix`, or everything when no prefix is given. */
+  clear(prefix?: string): Promise<void>;
+}
+
+/**
+* Configuration for the response cache.
+*/
+export interface CacheOptions {
+  /**
+   * Custom storage backend. Defaults to `RedisCacheStore` when `redisUrl` is set, `MemoryCacheStore` otherwise.
+   */
+  store?: CacheStore;
+  /**
+   * Per-method time-to-live in milliseconds. `0` disables caching for that method.
+   * @default { getMarket: 30000, getExchange: 5000, getSlugs: 300000, getMarketBySlug: 30000, search: 60000 }
+   */
+  ttl?: Partial<Record<CachedMethod, number>>;
+  /**
+   * How long (ms) an expired entry may still be served while it is refreshed in the background.
+   * @default 0
+   */
+  staleWhileRevalidateMs?: number;
+  /**
+   * Maximum number of entries kept by the default in-memory store.
+   * @default 1000
+   */
+  maxEntries?: number;
+  /**
+   * Prefix prepended to every cache key, useful when several clients share a Redis instance.
+   * @default 'polynance:'
+   */
+  keyPrefix?: string;
+}
+
+/**
+* Exponential backoff parameters shared by the SDK's retrying components.
+*/
+export interface BackoffPolicy {
+  /**
+   * Delay before the first retry in milliseconds.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for a single delay in milliseconds.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor the delay is multiplied by after each attempt.
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * Fraction (0.0 to 1.0) of the computed delay that is randomized to avoid thundering herds.
+   * @default 0.5
+   */
+  jitter?: number;
+  /**
+   * Maximum number of retries before giving up. Use `Infinity` to retry forever.
+   */
+  maxAttempts?: number;
+}
+
+/**
+* Controls how a trade subscription reconnects after the SSE connection drops.
+*/
+export interface ReconnectPolicy extends BackoffPolicy {
+  /**
+   * Whether to reconnect automatically.
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+* Controls how failed REST requests are retried.
+*/
+export interface RetryPolicy extends BackoffPolicy {
+  /**
+   * HTTP methods (lower case) that may be retried.
+   * @default ['get', 'head', 'options']
+   */
+  retryMethods?: string[];
+  /**
+   * HTTP status codes that trigger a retry.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryStatusCodes?: number[];
+  /**
+   * Whether to retry timeouts and requests that received no response.
+   * @default true
+   */
+  retryOnNetworkError?: boolean;
+  /**
+   * Longest `Retry-After` the client is willing to wait, in milliseconds. Longer waits fail immediately.
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
+}
+
+/**
+* Connection state of a `TradeSubscription`, suitable for driving a status indicator.
+*/
+export type TradeConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+* Per-subscription options for `subscribeToTrades`.
+*/
+export interface TradeSubscriptionOptions {
+  /** Overrides the client-level reconnect policy for this subscription. */
+  reconnect?: ReconnectPolicy;
+  /** Overrides the client-level SSE transport for this subscription. */
+  transport?: SseTransportKind;
+  /** Extra headers for this subscription, merged over `PolynanceClientOptions.sseHeaders`. */
+  headers?: Record<string, string>;
+}
+
+/**
+* Defines the handlers for Server-Sent Events (SSE) related to trade updates.
+* Note: onError now receives a PolynanceApiError.
+*/
+export interface TradeUpdateHandlers {
+  /**
+   * Callback function executed when the SSE connection is successfully established.
+   * @param ev The native Event object (a synthetic `open` event with the fetch transport).
+   */
+  onOpen?: (ev: Event) => void;
+
+  /**
+   * Callback function executed when a new message (a trade record) is received.
+   * The message data is pre-parsed into a `TradeRecord` object.
+   * @param data The parsed `TradeRecord` object for the received trade.
+   */
+  onMessage?: (data: TradeRecord) => void;
+
+  /**
+   * Callback function executed when an error occurs with the SSE connection or message processing.
+   * @param error The `PolynanceApiError` representing the error.
+   */
+  onError?: (error: PolynanceApiError) => void; // Changed to PolynanceApiError
+
+  /**
+   * Callback function executed before each reconnect attempt is scheduled.
+   * @param attempt The 1-based number of the upcoming reconnect attempt.
+   * @param delayMs The delay in milliseconds before the attempt is made.
+   */
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+
+  /**
+   * Callback function executed when a reconnect attempt succeeds.
+   * @param attempt The number of attempts it took to reconnect.
+   */
+  onReconnected?: (attempt: number) => void;
+
+  /**
+   * Callback function executed when the reconnect policy is exhausted and the subscription is closed for good.
+   * @param error The `PolynanceApiError` describing the last connection failure.
+   */
+  onGiveUp?: (error: PolynanceApiError) => void;
+}
+
+/**
+* Represents an active SSE subscription for trade updates.
+*/
+export interface TradeSubscription {
+  /**
+   * The underlying `EventSource` instance managing the connection, or `null` when the built-in fetch transport is used.
+   * You might use this for advanced control or debugging.
+   * The instance is replaced on every reconnect.
+   */
+  readonly eventSource: EventSource | null;
+
+  /**
+   * The transport serving this subscription.
+   */
+  readonly transport: Exclude<SseTransportKind, 'auto'>;
+
+  /**
+   * The current connection state of the subscription.
+   */
+  readonly state: TradeConnectionState;
+
+  /**
+   * Closes the SSE connection and stops receiving further events.
+   * It's important to call this when the subscription is no longer needed
+   * to free up resources.
+   */
+  close: () => void;
+
+  /**
+   * Retrieves the most recently received `TradeRecord` object.
+   * Returns `null` if no message has been received yet.
+   * Useful for getting the latest state without waiting for the next message.
+   */
+  getLatestData: () => TradeRecord | null;
+
+  /**
+   * Retrieves the id of the most recently received SSE event, used to resume after a reconnect.
+   * Returns `null` if the server does not send event ids or no message has been received yet.
+   */
+  getLastEventId: () => string | null;
+}
+
+/**
+* Represents a search result item when retrieving markets by query.
+*/
+export interface MarketMatchResult {
+  /** The prediction market that matched the search query. */
+  event: Market;
+  /** The cosine similarity score (typically 0.0 to 1.0) indicating the relevance of the market to the query. Higher is more relevant. */
+  cosineSimilarity: number;
+}
+
+/**
+* Identifies a provider market in canonical event links.
+*/
+export interface MarketRef {
+  protocol: PredictionProvider;
+  marketId: string;
+}
+
+/**
+* A provider market linked to a canonical event.
+*/
+export interface CanonicalEventMember extends MarketRef {
+  slug: string;
+  title: string;
+  /** How confident the link is (0-1); 1 for manual links and for the anchor market. */
+  confidence: number;
+  /** `override` when the link comes from a manual override, `match` when it was inferred. */
+  source: 'match' | 'override';
+}
+
+/**
+* One real-world question and the markets that list it, at most one per provider.
+*/
+export interface CanonicalEvent {
+  /** Stable id: the override id, or `<protocol>:<marketId>` of the market the event was first built around. */
+  id: string;
+  title: string;
+  endDate: string;
+  members: CanonicalEventMember[];
+  /** The linked markets, in the same order as `members`. */
+  markets: Market[];
+}
+
+/**
+* Manually maintained corrections to inferred event links, typically kept in a JSON file.
+*/
+export interface EventLinkOverrides {
+  /** Markets that are the same event, optionally under a fixed canonical id and title. */
+  events?: { id?: string; title?: string; members: MarketRef[] }[];
+  /** Groups of markets that must never be linked to each other. */
+  separate?: MarketRef[][];
+}
+
+/**
+* Settings for canonical event linking.
+*/
+export interface EventLinkingOptions {
+  /**
+   * Minimum title similarity (0-1) to link two markets automatically.
+   * @default 0.6
+   */
+  minConfidence?: number;
+  /**
+   * Maximum difference between end dates of linked markets, in milliseconds.
+   * @default 86400000 (1 day)
+   */
+  maxEndDateDiffMs?: number;
+  /** Manual links and separations, applied before inference. */
+  overrides?: EventLinkOverrides;
+}
+
+/**
+* Options for the cross-protocol arbitrage scanner.
+*/
+export interface ArbitrageScanOptions {
+  /** Only consider markets matching this search query. Without a query (or `markets`), active markets of the first protocol seed the scan. */
+  query?: string;
+  /** Scan exactly these markets instead of searching. */
+  markets?: Market[];
+  /**
+   * Providers to compare.
+   * @default ['polymarket', 'limitless', 'truemarket']
+   */
+  protocols?: PredictionProvider[];
+  /**
+   * Number of active markets used as seeds when there is no query.
+   * @default 20
+   */
+  maxSeeds?: number;
+  /**
+   * Minimum `search` similarity for a market to be considered.
+   * @default 0.75
+   */
+  minSimilarity?: number;
+  /**
+   * Minimum similarity (0-1) of two `Exchange.question`s to treat them as the same question.
+   * @default 0.6
+   */
+  minQuestionSimilarity?: number;
+  /**
+   * Maximum difference between the end dates of two matched exchanges, in milliseconds.
+   * @default 86400000 (1 day)
+   */
+  maxEndDateDiffMs?: number;
+  /**
+   * Fee rate per provider in basis points. CLOB fees follow `feeRate * min(price, 1 - price)` per share;
+   * TrueMarket (AMM) fees are charged on notional.
+   * @default { polymarket: 0, limitless: 0, truemarket: 100 }
+   */
+  feeRateBps?: Partial<Record<PredictionProvider, number>>;
+  /**
+   * Price legs from order books (best ask, with depth) instead of the last `PositionToken.price`.
+   * Falls back to the last price when a book cannot be loaded.
+   * @default true
+   */
+  useOrderbooks?: boolean;
+  /**
+   * Minimum edge per share pair, after fees, for an opportunity to be reported.
+   * @default 0
+   */
+  minEdge?: number;
+}
+
+/**
+* Options for the periodic arbitrage watcher.
+*/
+export interface ArbitrageWatchOptions extends ArbitrageScanOptions {
+  /**
+   * Delay between the end of one scan and the start of the next.
+   * @default 30000
+   */
+  intervalMs?: number;
+}
+
+/**
+* One side of an arbitrage: buying an outcome on one provider.
+*/
+export interface ArbitrageLeg {
+  provider: PredictionProvider;
+  marketId: string;
+  exchangeId: string;
+  question: string;
+  tokenId: string;
+  /** Outcome bought (e.g. "Yes"). */
+  outcome: string;
+  /** Price paid per share (best ask, or last price). */
+  price: number;
+  /** Fee per share at `price`. */
+  fee: number;
+  /** Where `price` came from. */
+  source: 'orderbook' | 'price';
+}
+
+/**
+* Complementary outcomes of the same question priced below 1 across two providers.
+* Buying both legs pays out 1 per share pair whichever way the question resolves.
+*/
+export interface ArbitrageOpportunity {
+  /** Stable identifier of the leg pair. */
+  id: string;
+  question: string;
+  legs: [ArbitrageLeg, ArbitrageLeg];
+  /** Similarity of the two exchanges' questions (0-1). */
+  matchConfidence: number;
+  /** Sum of the leg prices per share pair. */
+  cost: number;
+  /** Sum of the leg fees per share pair. */
+  fees: number;
+  /** `1 - cost - fees`: profit per share pair at the top of the books. */
+  edge: number;
+  /** Share pairs that can be bought at a positive edge given book depth; `null` without order books. */
+  maxSize: number | null;
+  /** Profit from buying `maxSize` share pairs; `null` without order books. */
+  expectedProfit: number | null;
+  /** Unix milliseconds of the scan. */
+  detectedAt: number;
+}
+
+/**
+* Handlers for the periodic arbitrage watcher.
+*/
+export interface ArbitrageWatchHandlers {
+  /** Opportunities not present in the previous scan. */
+  onOpportunity?: (opportunities: ArbitrageOpportunity[]) => void;
+  /** Every opportunity of each completed scan. */
+  onScan?: (opportunities: ArbitrageOpportunity[]) => void;
+  onError?: (error: PolynanceApiError) => void;
+}
+
+/**
+* Represents a single candlestick data point.
+*/
+export interface Candle {
+  /** Unix timestamp (seconds) representing the start time of the candle interval. */
+  time: number;
+  /** The opening price during the candle interval. */
+  open: number;
+  /** The highest price reached during the candle interval. */
+  high: number;
+  /** The lowest price reached during the candle interval. */
+  low: number;
   /** The closing price at the end of the candle interval. */
   close: number;
   /** The total volume traded during the candle interval. */
   volume: number;
+  /** Volume-weighted average price; equals `close` when the candle has no volume. Set with `tradeStats`. */
+  vwap?: number;
+  /** Number of trades in the candle interval. Set with `tradeStats`. */
+  trades?: number;
+  /** `true` for a forward-filled candle of an interval without trades. */
+  filled?: boolean;
+}
+
+/**
+* Options for building and resampling candles.
+*/
+export interface CandleOptions {
+  /**
+   * Emit a candle for every interval: empty intervals repeat the previous close with zero volume.
+   * Intervals before the first known price are still skipped.
+   * @default false
+   */
+  fillGaps?: boolean;
+  /**
+   * Add `vwap` and `trades` to each candle.
+   * @default false
+   */
+  tradeStats?: boolean;
+}
+
+/**
+* A streaming source of trades for `LiveCandles`.
+*/
+export interface TradeFeed {
+  /**
+   * Starts streaming trades.
+   * @returns A handle that stops the stream.
+   */
+  subscribe(handlers: {
+    onTrade: (trade: TradeRecord) => void;
+    onError: (error: Error) => void;
+  }): { close: () => void };
+}
+
+/**
+* Options for `LiveCandles`.
+*/
+export interface LiveCandleOptions {
+  /**
+   * Add `vwap` and `trades` to each candle.
+   * @default false
+   */
+  tradeStats?: boolean;
+  /**
+   * Closed candles kept per interval.
+   * @default 500
+   */
+  maxCandles?: number;
+  /**
+   * How long after an interval boundary to wait for late trades before closing a candle without a newer trade.
+   * @default 1000
+   */
+  closeDelayMs?: number;
+}
+
+/**
+* Options for `subscribeToCandles`.
+*/
+export interface CandleSubscriptionOptions extends LiveCandleOptions {
+  /**
+   * Which `getPriceHistory` series seeds the candles (0 = YES). The default feed streams the exchange's
+   * trades without an outcome, so other outcomes need their own `feed` or `feed: false`.
+   * @default 0
+   */
+  outcomeIndex?: number;
+  /** Trade source. Defaults to `subscribeToTrades` for the exchange; `false` builds candles from history only. */
+  feed?: TradeFeed | false;
+  /** Options for the default `subscribeToTrades` feed. */
+  trades?: TradeSubscriptionOptions;
+}
+
+/**
+* A candle of one interval that was updated or closed.
+*/
+export interface CandleEvent {
+  intervalMillis: number;
+  candle: Candle;
+}
+
+/**
+* Handlers for live candles.
+*/
+export interface LiveCandleHandlers {
+  /** The current candle of an interval changed, or a new one opened. */
+  onCandleUpdate?: (event: CandleEvent) => void;
+  /** A candle's interval ended. The candle is final. */
+  onCandleClose?: (event: CandleEvent) => void;
+  onError?: (error: PolynanceApiError) => void;
+}
+
+/**
+* The YES and NO candles of a binary market for one interval.
+*/
+export interface OutcomeCandle {
+  /** Unix timestamp (seconds) of the interval start. */
+  time: number;
+  /** Candle of the first position token, or `null` if it has no price yet. */
+  yes: Candle | null;
+  /** Candle of the second position token, or `null` if it has no price yet. */
+  no: Candle | null;
+}
+
+
+/**
+* Configuration for the Limitless order adapter.
+*/
+export interface LimitlessOptions {
+  /**
+   * Base URL of the Limitless REST API. Point it at a local stand-in for testing.
+   * @default 'https://api.limitless.exchange'
+   */
+  apiBaseUrl?: string;
+  /**
+   * Chain id the Limitless contracts live on.
+   * @default 8453 (Base)
+   */
+  chainId?: number;
+  /**
+   * Collateral (USDC) token address used for allowance checks.
+   * @default '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' (USDC on Base)
+   */
+  collateralAddress?: string;
+  /**
+   * Conditional Tokens contract address used for allowance checks.
+   * @default '0xC9c98965297Bc527861c898329Ee280632B76e18'
+   */
+  conditionalTokensAddress?: string;
+  /**
+   * Timeout for Limitless API requests in milliseconds.
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+/**
+* An order signed for the Limitless CTF exchange, ready to be submitted with `executeOrder`.
+*/
+export interface LimitlessSignedOrder extends ProviderOrder {
+  provider: 'limitless';
+  /** Slug of the Limitless market the order belongs to. */
+  marketSlug: string;
+  /** Exchange contract the order was signed for (EIP-712 verifying contract). */
+  exchangeAddress: string;
+  /** Limit price per share (0.0 to 1.0). */
+  price: number;
+  /** The signed order struct. */
+  order: PolyOrder;
+}
+
+/**
+* Configuration for the TrueMarket trading adapter.
+*/
+export interface TrueMarketOptions {
+  /**
+   * Chain id TrueMarket lives on.
+   * @default 8453 (Base)
+   */
+  chainId?: number;
+  /**
+   * Collateral (USDC) token address.
+   * @default '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' (USDC on Base)
+   */
+  collateralAddress?: string;
+  /**
+   * Uniswap V3 `SwapRouter02` the YES/NO pools are traded through.
+   * @default '0x2626664c2603336E57B271c5C0b26F421741e481'
+   */
+  swapRouterAddress?: string;
+  /**
+   * Uniswap V3 factory used to locate the pool of a position token.
+   * @default '0x33128a8fC17869897dcE68Ed026d694621f6FDfD'
+   */
+  uniswapFactoryAddress?: string;
+  /**
+   * Maximum accepted deviation from the expected fill, in basis points.
+   * @default 100 (1%)
+   */
+  defaultSlippageBps?: number;
+}
+
+/**
+* Order types understood by `executeOrder`. Matches the values of the CLOB client's `OrderType`.
+*/
+export type OrderTypeName = 'GTC' | 'FOK' | 'GTD' | 'FAK';
+
+/**
+* Lifecycle state of an order.
+*/
+export type OrderStatus = 'live' | 'partially_filled' | 'matched' | 'cancelled' | 'expired' | 'failed';
+
+/**
+* Provider-independent result of submitting an order.
+*/
+export interface OrderResult {
+  /** The provider the order was sent to. */
+  provider: string;
+  /** Order id on the provider, or the transaction hash for on-chain trades. `null` if the provider returned none. */
+  orderId: string | null;
+  /** State of the order right after submission. */
+  status: OrderStatus;
+  /** Side of the order. */
+  side: "BUY" | "SELL";
+  /** Limit price (or expected average price for AMM trades) per share. */
+  price: number;
+  /** Number of shares requested. */
+  size: number;
+  /** Number of shares filled so far, when known. */
+  filledSize?: number;
+  /** Position token the order trades, when known. */
+  tokenId?: string;
+  /** Hash of the transaction that executed the trade, for on-chain trades. */
+  txHash?: string;
+  /** The unmodified provider response. */
+  raw: unknown;
+}
+
+/**
+* Provider-independent result of a cancellation request.
+*/
+export interface CancelOrdersResult {
+  /** Ids of the orders that were cancelled. */
+  cancelled: string[];
+  /** Ids of the orders that could not be cancelled, mapped to the provider's reason. */
+  notCancelled: Record<string, string>;
+}
+
+/**
+* An order built by an `OrderAdapter`. The `provider` tag routes it back to the same adapter in `executeOrder`.
+*/
+export interface ProviderOrder {
+  provider: string;
+}
+
+/**
+* Everything an adapter needs to build an order; the SDK resolves the exchange, token, price and size beforehand.
+*/
+export interface OrderBuildRequest {
+  params: ExecuteOrderParams;
+  exchange: Exchange;
+  positionToken: PositionToken;
+  /** Limit price per share (0.0 to 1.0). */
+  price: number;
+  /** Number of shares. */
+  size: number;
+  signer: Wallet | JsonRpcSigner;
+}
+
+/**
+* Everything an adapter needs to submit an order.
+*/
+export interface OrderExecuteRequest {
+  orderType: OrderTypeName;
+  signer: Wallet | JsonRpcSigner;
+}
+
+/**
+* Trading integration for one prediction provider.
+* Register implementations with `PolynanceSDK.registerOrderAdapter` or `PolynanceClientOptions.orderAdapters`.
+*/
+export interface OrderAdapter<TOrder extends ProviderOrder = ProviderOrder> {
+  /** The provider this adapter trades on; matches `ExecuteOrderParams.provider`. */
+  readonly provider: string;
+  /**
+   * Set when the adapter applies `ExecuteOrderParams.maxSlippageBps` itself (e.g. as an on-chain minimum output)
+   * and the provider has no order book to quote against.
+   */
+  readonly enforcesSlippage?: boolean;
+  /** Builds (and, where applicable, signs) an order. */
+  buildOrder(request: OrderBuildRequest): Promise<TOrder>;
+  /** Submits an order previously returned by `buildOrder`, handling any approvals it needs. */
+  executeOrder(order: TOrder, request: OrderExecuteRequest): Promise<OrderResult>;
+  /** Fetches the current state of a submitted order. Needed for the order tracker to follow resting orders. */
+  getOrder?(orderId: string, request: { signer?: Wallet | JsonRpcSigner }): Promise<OrderResult>;
+  /** Lists the signer's resting orders, optionally only on one exchange. */
+  getOpenOrders?(request: { signer: Wallet | JsonRpcSigner; exchange?: Exchange }): Promise<OrderResult[]>;
+  /** Cancels orders by id. */
+  cancelOrders?(orderIds: string[], request: { signer: Wallet | JsonRpcSigner }): Promise<CancelOrdersResult>;
+  /** Cancels all of the signer's orders on one exchange. */
+  cancelMarketOrders?(exchange: Exchange, request: { signer: Wallet | JsonRpcSigner }): Promise<CancelOrdersResult>;
+}
+
+/**
+* Starting state of the virtual paper-trading account.
+*/
+export interface PaperTradingOptions {
+  /**
+   * Virtual USDC balance.
+   * @default 1000
+   */
+  initialUsdc?: number;
+  /** Virtual position-token balances in shares, keyed by token id. */
+  positions?: Record<string, number>;
 }
 
+/**
+* An order built in paper-trading mode. It is never signed or sent to the provider.
+*/
+export interface PaperOrder extends ProviderOrder {
+  paper: true;
+  exchangeId: string;
+  tokenId: string;
+  /** Name of the position token (e.g. "YES"). */
+  outcome: string;
+  side: "BUY" | "SELL";
+  /** Limit price per share. */
+  price: number;
+  /** Number of shares. */
+  size: number;
+  /** Unix seconds after which a resting order expires; 0 for none. */
+  expiration: number;
+}
+
+/**
+* State of an order on the paper-trading account.
+*/
+export interface PaperOrderState {
+  orderId: string;
+  provider: string;
+  exchangeId: string;
+  tokenId: string;
+  outcome: string;
+  side: "BUY" | "SELL";
+  price: number;
+  size: number;
+  filledSize: number;
+  /** Average price of the fills so far; 0 if nothing filled. */
+  averagePrice: number;
+  status: OrderStatus;
+  orderType: OrderTypeName;
+  expiration: number;
+  /** Unix milliseconds when the order was placed. */
+  createdAt: number;
+}
+
+/**
+* Snapshot of the paper-trading account.
+*/
+export interface PaperAccountSnapshot {
+  usdc: number;
+  /** Position-token balances in shares, keyed by token id. */
+  positions: Record<string, number>;
+  /** Orders that are still resting. */
+  openOrders: PaperOrderState[];
+  /** Every simulated fill, oldest first. */
+  fills: { orderId: string; tokenId: string; side: "BUY" | "SELL"; price: number; size: number; timestamp: number }[];
+}
+
+/**
+* An order followed by the order tracker.
+*/
+export interface TrackedOrder {
+  /** Order id on the provider (or transaction hash for on-chain trades). */
+  orderId: string;
+  /** The provider the order was placed on. */
+  provider: string;
+  /** Current lifecycle state. */
+  status: OrderStatus;
+  side?: "BUY" | "SELL";
+  /** Limit price per share. */
+  price?: number;
+  /** Number of shares requested. */
+  size?: number;
+  /** Number of shares filled so far. */
+  filledSize: number;
+  /** Position token the order trades, when known. */
+  tokenId?: string;
+  /** Unix milliseconds when tracking started. */
+  createdAt: number;
+  /** Unix milliseconds of the last state change or refresh. */
+  updatedAt: number;
+  /** Last error seen while refreshing the order, if any. */
+  lastError?: string;
+}
+
+/**
+* Emitted by the order tracker whenever an order changes state or fill size.
+*/
+export interface OrderTransition {
+  order: TrackedOrder;
+  /** The previous status, or `null` when the order was just added. */
+  previousStatus: OrderStatus | null;
+}
+
+/**
+* Persists tracked orders so a restarted process can resume watching them.
+*/
+export interface OrderTrackerStore {
+  load(): Promise<TrackedOrder[]>;
+  save(orders: TrackedOrder[]): Promise<void>;
+}
+
+/**
+* Configuration for the order tracker.
+*/
+export interface OrderTrackingOptions {
+  /**
+   * How often non-final orders are refreshed, in milliseconds. `0` disables polling.
+   * @default 5000
+   */
+  pollIntervalMs?: number;
+  /**
+   * How long orders in a final state are kept before being dropped, in milliseconds.
+   * @default 600000 (10 minutes)
+   */
+  retainFinalMs?: number;
+  /**
+   * Where tracked orders are persisted. Call `orderTracker.restore()` on startup to resume.
+   */
+  store?: OrderTrackerStore;
+}
+
+/**
+* Options for `waitForFill`.
+*/
+export interface WaitForFillOptions {
+  /** Maximum time to wait in milliseconds. Waits indefinitely when omitted. */
+  timeout?: number;
+  /**
+   * Provider of the order, used to start tracking it if it is not tracked yet.
+   * @default 'polymarket'
+   */
+  provider?: PredictionProvider;
+}
+
+/**
+* A prepared TrueMarket trade: a swap of collateral for a YES/NO token (or back) through its Uniswap V3 pool.
+*/
+export interface TrueMarketOrder {
+  provider: 'truemarket';
+  /** TrueMarket exchange the trade belongs to. */
+  exchangeId: string;
+  side: "BUY" | "SELL";
+  /** Token sold into the pool. */
+  tokenIn: string;
+  /** Token bought from the pool. */
+  tokenOut: string;
+  /** Uniswap V3 fee tier of the pool. */
+  poolFee: number;
+  /** Exact input amount in `tokenIn` base units. */
+  amountIn: string;
+  /** Minimum output in `tokenOut` base units; the swap reverts below it. */
+  amountOutMinimum: string;
+  /** Expected average price per share. */
+  price: number;
+  /** Expected number of shares bought or sold. */
+  size: number;
+  /** Address that receives the output tokens. */
+  recipient: string;
+}
+
+/**
+* Order as returned by the Limitless API after submission.
+*/
+export interface LimitlessOrderResponse {
+  id?: string;
+  status?: string;
+  [key: string]: any;
+}
 
 export interface PolyOrder {
   salt: string;
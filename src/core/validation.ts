@@ -0,0 +1,371 @@
+// src/core/validation.ts
+import {
+    Market,
+    Exchange,
+    PositionToken,
+    MarketDiscussion,
+    OrderBookSummary,
+    OrderBookLevel,
+    TradeRecord,
+    TraderPosition,
+    TraderActivity,
+    TraderActivityPage,
+    TraderStats,
+    TraderBasic,
+    Trader,
+    LedgerEntry,
+    MarketMatchResult,
+    Candle,
+    PolyOrder,
+    ValidationIssue,
+} from './types';
+
+/**
+ * A runtime schema for values of type `T`.
+ * It appends an issue for every mismatch found under `path` and never throws.
+ */
+export type Schema<T> = ((value: unknown, path: string, issues: ValidationIssue[]) => void) & { readonly __type?: T };
+
+/**
+ * Describes a value for use in `ValidationIssue.received`.
+ */
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+    if (typeof value === 'string') return `string "${value.length > 40 ? value.substring(0, 40) + '...' : value}"`;
+    return typeof value;
+}
+
+function schema<T>(fn: (value: unknown, path: string, issues: ValidationIssue[]) => void): Schema<T> {
+    return fn as Schema<T>;
+}
+
+const str = schema<string>((value, path, issues) => {
+    if (typeof value !== 'string') issues.push({ path, expected: 'string', received: describe(value) });
+});
+
+const bool = schema<boolean>((value, path, issues) => {
+    if (typeof value !== 'boolean') issues.push({ path, expected: 'boolean', received: describe(value) });
+});
+
+/**
+ * A finite number, optionally bounded to `[min, max]`.
+ */
+function num(min?: number, max?: number): Schema<number> {
+    const expected = min !== undefined || max !== undefined ? `number in [${min ?? '-inf'}, ${max ?? 'inf'}]` : 'finite number';
+    return schema<number>((value, path, issues) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)
+            || (min !== undefined && value < min) || (max !== undefined && value > max)) {
+            issues.push({ path, expected, received: describe(value) });
+        }
+    });
+}
+
+/**
+ * A decimal number encoded as a string (e.g. "0.53"), optionally bounded to `[min, max]`.
+ */
+function decimalString(min?: number, max?: number): Schema<string> {
+    const expected = min !== undefined || max !== undefined ? `decimal string in [${min ?? '-inf'}, ${max ?? 'inf'}]` : 'decimal string';
+    return schema<string>((value, path, issues) => {
+        const parsed = typeof value === 'string' && /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/.test(value) ? Number(value) : NaN;
+        if (!Number.isFinite(parsed) || (min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+            issues.push({ path, expected, received: describe(value) });
+        }
+    });
+}
+
+function literal<T extends string>(...allowed: T[]): Schema<T> {
+    return schema<T>((value, path, issues) => {
+        if (!allowed.includes(value as T)) issues.push({ path, expected: allowed.map((a) => `"${a}"`).join(' | '), received: describe(value) });
+    });
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return schema<T | undefined>((value, path, issues) => {
+        if (value !== undefined) inner(value, path, issues);
+    });
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return schema<T | null>((value, path, issues) => {
+        if (value !== null) inner(value, path, issues);
+    });
+}
+
+/**
+ * Accepts a value that matches any of the given schemas.
+ */
+function oneOf<T>(expected: string, ...options: Schema<any>[]): Schema<T> {
+    return schema<T>((value, path, issues) => {
+        for (const option of options) {
+            const local: ValidationIssue[] = [];
+            option(value, path, local);
+            if (local.length === 0) return;
+        }
+        issues.push({ path, expected, received: describe(value) });
+    });
+}
+
+function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+    return schema<T[]>((value, path, issues) => {
+        if (!Array.isArray(value)) {
+            issues.push({ path, expected: 'array', received: describe(value) });
+            return;
+        }
+        value.forEach((v, i) => item(v, `${path}[${i}]`, issues));
+    });
+}
+
+function recordOf<T>(item: Schema<T>): Schema<Record<string, T>> {
+    return schema<Record<string, T>>((value, path, issues) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            issues.push({ path, expected: 'object', received: describe(value) });
+            return;
+        }
+        for (const [k, v] of Object.entries(value)) {
+            item(v, `${path}[${JSON.stringify(k)}]`, issues);
+        }
+    });
+}
+
+/**
+ * An object whose listed properties must match their schemas. Unknown properties are allowed.
+ */
+function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return schema<T>((value, path, issues) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            issues.push({ path, expected: 'object', received: describe(value) });
+            return;
+        }
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+        }
+    });
+}
+
+const predictionProvider = literal('polymarket', 'limitless', 'truemarket');
+const buyOrSell = literal('BUY', 'SELL');
+
+const positionToken = object<PositionToken>({
+    token_id: str,
+    name: str,
+    price: decimalString(0, 1),
+});
+
+const exchange = object<Exchange>({
+    id: str,
+    name: str,
+    question: str,
+    end: str,
+    description: str,
+    image: str,
+    slug: optional(str),
+    icon: str,
+    active: bool,
+    funded: bool,
+    rewardsMinSize: optional(num()),
+    rewardsMaxSpread: optional(num()),
+    spread: optional(num()),
+    position_tokens: arrayOf(positionToken),
+    groupItemTitle: str,
+});
+
+const market = object<Market>({
+    id: str,
+    protocol: predictionProvider,
+    region: str,
+    slug: str,
+    title: str,
+    description: str,
+    startDate: str,
+    creationDate: str,
+    endDate: str,
+    image: str,
+    icon: str,
+    active: bool,
+    liquidity: optional(num()),
+    volume: optional(num()),
+    markets: arrayOf(exchange),
+});
+
+const marketDiscussion = object<MarketDiscussion>({
+    id: str,
+    parent_comment_id: optional(nullable(str)),
+    name: str,
+    pseudonym: str,
+    displayUsernamePublic: bool,
+    bio: str,
+    baseAddress: str,
+    profileImage: str,
+    positions: arrayOf(object<MarketDiscussion['positions'][number]>({
+        position: str,
+        positionSize: str,
+        marketId: str,
+    })),
+    createdAt: str,
+    reportCount: num(0),
+    reactionCount: num(0),
+    content: str,
+});
+
+const orderBookLevel = object<OrderBookLevel>({
+    price: num(0, 1),
+    size: num(0),
+});
+
+const orderBookSummary = object<OrderBookSummary>({
+    market: str,
+    asset_id: str,
+    timestamp: oneOf<string | number>('string | number', str, num()),
+    bids: arrayOf(orderBookLevel),
+    asks: arrayOf(orderBookLevel),
+    hash: str,
+});
+
+const tradeRecord = object<TradeRecord>({
+    price: num(0, 1),
+    volumeBase: num(0),
+    timestamp: num(0),
+});
+
+const traderPosition = object<TraderPosition>({
+    conditionId: optional(str),
+    marketSlug: optional(str),
+    outcome: str,
+    outcomeIndex: optional(num(0)),
+    size: num(),
+    averagePrice: optional(num()),
+    currentPrice: num(),
+    currentValue: num(),
+    initialValue: num(),
+    cashPnl: optional(num()),
+    percentPnl: optional(num()),
+    icon: str,
+    endsOn: str,
+});
+
+const traderActivity = object<TraderActivity>({
+    txHash: optional(str),
+    timestamp: num(0),
+    marketSlug: optional(str),
+    side: optional(buyOrSell),
+    outcome: str,
+    price: num(),
+    size: num(),
+    usdcSize: num(),
+    type: optional(str),
+});
+
+const traderActivityPage = object<TraderActivityPage>({
+    activities: arrayOf(traderActivity),
+    nextCursor: optional(nullable(str)),
+});
+
+const traderStats = object<TraderStats>({
+    portfolioValue: nullable(num()),
+    cumulativeVolume: nullable(num()),
+    cumulativeProfit: nullable(num()),
+    totalTrades: nullable(num(0)),
+    balanceInProtocol: optional(num()),
+});
+
+const traderBasic = object<TraderBasic>({
+    tradingWallet: str,
+    proxyOwner: nullable(str),
+    name: str,
+    pseudonym: str,
+    bio: str,
+    avatar: str,
+    createdAt: str,
+});
+
+const trader = object<Trader>({
+    user: traderBasic,
+    stats: traderStats,
+});
+
+const ledgerEntry = object<LedgerEntry>({
+    blockNumber: num(0),
+    logIndex: num(0),
+    txHash: str,
+    eventType: literal('PositionSplit', 'PositionsMerge', 'PayoutRedemption'),
+    trader: str,
+    conditionId: str,
+    indexSet: arrayOf(num(0)),
+    amount: str,
+    tokenQty: str,
+    collateralFlow: str,
+});
+
+const marketMatchResult = object<MarketMatchResult>({
+    event: market,
+    cosineSimilarity: num(),
+});
+
+const candle = object<Candle>({
+    time: num(0),
+    open: num(),
+    high: num(),
+    low: num(),
+    close: num(),
+    volume: num(0),
+    vwap: optional(num()),
+    trades: optional(num(0)),
+    filled: optional(bool),
+});
+
+const polyOrder = object<PolyOrder>({
+    salt: str,
+    maker: str,
+    signer: str,
+    taker: str,
+    tokenId: str,
+    makerAmount: str,
+    takerAmount: str,
+    expiration: str,
+    nonce: str,
+    feeRateBps: str,
+    side: str,
+    signatureType: str,
+    signature: str,
+});
+
+/**
+ * Runtime schemas for the SDK's data types, plus combinators for composite responses.
+ */
+export const Schemas = {
+    Market: market,
+    Exchange: exchange,
+    PositionToken: positionToken,
+    MarketDiscussion: marketDiscussion,
+    OrderBookSummary: orderBookSummary,
+    OrderBookLevel: orderBookLevel,
+    TradeRecord: tradeRecord,
+    TraderPosition: traderPosition,
+    TraderActivity: traderActivity,
+    TraderActivityPage: traderActivityPage,
+    TraderStats: traderStats,
+    TraderBasic: traderBasic,
+    Trader: trader,
+    LedgerEntry: ledgerEntry,
+    MarketMatchResult: marketMatchResult,
+    Candle: candle,
+    PolyOrder: polyOrder,
+    String: str,
+    arrayOf,
+    recordOf,
+};
+
+/**
+ * Checks `value` against `schema`.
+ * @param schema - One of `Schemas`.
+ * @param value - The untrusted value, e.g. an API response body.
+ * @param rootPath - Name used for the root in issue paths.
+ * @returns Every mismatch found; empty if the value conforms.
+ */
+export function validateData<T>(schema: Schema<T>, value: unknown, rootPath: string = '$'): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    schema(value, rootPath, issues);
+    return issues;
+}
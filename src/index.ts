@@ -1,3 +1,20 @@
 
 export { PolynanceSDK } from './core/client';
+export { generatePriceChart, resampleCandles, mergePriceHistory } from './core/candles';
+export { MemoryCacheStore } from './core/cache';
+export { RedisCacheStore } from './core/redis';
+export { Schemas, validateData } from './core/validation';
+export type { Schema } from './core/validation';
+export { collectAll } from './core/pagination';
+export { realizedPnlByMarket } from './core/activity';
+export { CtfLedgerReader, FileLedgerCheckpointStore } from './core/ledger';
+export { AllowanceManager } from './core/allowances';
+export { NETWORK_PRESETS } from './core/network';
+export { LimitlessAdapter } from './core/providers/limitless';
+export { TrueMarketAdapter } from './core/providers/truemarket';
+export { OrderTracker, FileOrderTrackerStore } from './core/orders';
+export { quoteOrderBook } from './core/orderbook';
+export { LiveOrderBook, PolymarketBookFeed } from './core/livebook';
+export { LiveCandles } from './core/livecandles';
+export { EventLinker, loadEventLinkOverrides } from './core/linking';
 export * from './core/types';